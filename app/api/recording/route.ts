@@ -0,0 +1,87 @@
+import { authorizeControlRequest } from "@/lib/feed/control-auth"
+import { DEFAULT_RECORDING_LIMITS, MAX_RECORDING_DURATION_MS, type RecordingLimits } from "@/lib/feed/recorder"
+import { getServerRecordingStatus, startServerRecording, stopServerRecording } from "@/lib/feed/server-recorder"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Ceiling on what a client may ask the server to write to disk */
+const MAX_SERVER_RECORDING_BYTES = Number(process.env.RECORDING_MAX_BYTES) || 500 * 1024 * 1024
+
+/** Bearer token required outside development; without one the route is only available in development */
+const RECORDING_TOKEN = process.env.RECORDING_TOKEN
+
+/** Recording writes to the server's disk, so it is open only in development unless RECORDING_TOKEN is set */
+const authorize = (request: Request) =>
+  authorizeControlRequest(request, RECORDING_TOKEN, "RECORDING_TOKEN", "Server recording")
+
+/**
+ * A requested limit: the default when omitted, null when it is not a number within (0, max]
+ */
+const parseLimit = (value: unknown, fallback: number, max: number): number | null => {
+  if (value === undefined || value === null) return fallback
+  const limit = Number(value)
+  return Number.isFinite(limit) && limit > 0 && limit <= max ? limit : null
+}
+
+/**
+ * Current state of the server-side capture
+ */
+export async function GET(request: Request) {
+  const denied = authorize(request)
+  if (denied) return denied
+
+  return Response.json(getServerRecordingStatus())
+}
+
+/**
+ * Start or stop recording raw frames on the server: `{ "action": "start", "limits": {...} }` or `{ "action": "stop" }`
+ */
+export async function POST(request: Request) {
+  const denied = authorize(request)
+  if (denied) return denied
+
+  let body: { action?: string; limits?: Partial<RecordingLimits> }
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  switch (body.action) {
+    case "start": {
+      const maxBytes = parseLimit(body.limits?.maxBytes, DEFAULT_RECORDING_LIMITS.maxBytes, MAX_SERVER_RECORDING_BYTES)
+      if (maxBytes === null) {
+        return Response.json({ error: `maxBytes must be between 1 and ${MAX_SERVER_RECORDING_BYTES}` }, { status: 400 })
+      }
+      const maxDurationMs = parseLimit(
+        body.limits?.maxDurationMs,
+        DEFAULT_RECORDING_LIMITS.maxDurationMs,
+        MAX_RECORDING_DURATION_MS,
+      )
+      if (maxDurationMs === null) {
+        return Response.json(
+          { error: `maxDurationMs must be between 1 and ${MAX_RECORDING_DURATION_MS}` },
+          { status: 400 },
+        )
+      }
+
+      const limits: RecordingLimits = { maxBytes, maxDurationMs }
+      try {
+        return Response.json(startServerRecording(limits))
+      } catch (error) {
+        // Typically a RECORDINGS_DIR that cannot be created or written to
+        return Response.json(
+          { error: `Failed to start recording: ${error instanceof Error ? error.message : "Unknown error"}` },
+          { status: 500 },
+        )
+      }
+    }
+
+    case "stop":
+      return Response.json(stopServerRecording())
+
+    default:
+      return Response.json({ error: `Unknown action "${body.action}"` }, { status: 400 })
+  }
+}
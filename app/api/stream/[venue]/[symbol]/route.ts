@@ -0,0 +1,171 @@
+import { getBookChannel, VENUES } from "@/lib/venues"
+import { SYMBOLS, isSymbol } from "@/lib/symbols"
+import { isMarketRegime } from "@/lib/synthetic-market"
+import { getInstrument, loadInstruments } from "@/lib/instruments"
+import { getServerFeedHub } from "@/lib/feed/server-hub"
+import { authorizeControlRequest } from "@/lib/feed/control-auth"
+import { SSE_KEEPALIVE_INTERVAL_MS, type FeedEvent } from "@/lib/feed/protocol"
+import type { Venue, Symbol } from "@/types/trading"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Most symbols one stream may watch besides its own; the UI offers no more than SYMBOLS */
+const MAX_WATCHED_SYMBOLS = SYMBOLS.length
+
+/** Bearer token required outside development to force reconnects; without one retries only work in development */
+const STREAM_RETRY_TOKEN = process.env.STREAM_RETRY_TOKEN
+
+interface RouteContext {
+  params: Promise<{ venue: string; symbol: string }>
+}
+
+/**
+ * Validate the route parameters, or return the error response to send
+ */
+const resolveStream = async (context: RouteContext): Promise<{ venue: Venue; symbol: Symbol } | Response> => {
+  const { venue, symbol } = await context.params
+  const decodedSymbol = decodeURIComponent(symbol)
+
+  if (!VENUES.includes(venue as Venue)) {
+    return Response.json({ error: `Unknown venue "${venue}"` }, { status: 404 })
+  }
+  if (!isSymbol(decodedSymbol)) {
+    return Response.json({ error: `Unknown symbol "${decodedSymbol}"` }, { status: 404 })
+  }
+  await loadInstruments(venue as Venue)
+  if (!getInstrument(venue as Venue, decodedSymbol)) {
+    return Response.json({ error: `${venue} does not list "${decodedSymbol}"` }, { status: 404 })
+  }
+  return { venue: venue as Venue, symbol: decodedSymbol }
+}
+
+/**
+ * Symbols listed in the `watch` query parameter, comma separated, or the error response to send.
+ * Each one opens an upstream subscription, so they must be UI symbols the venue lists, and only a few.
+ */
+const parseWatchlist = (venue: Venue, params: URLSearchParams): Symbol[] | Response => {
+  const watched = [
+    ...new Set(
+      (params.get("watch") ?? "")
+        .split(",")
+        .map((symbol) => symbol.trim())
+        .filter(Boolean),
+    ),
+  ]
+  if (watched.length > MAX_WATCHED_SYMBOLS) {
+    return Response.json({ error: `At most ${MAX_WATCHED_SYMBOLS} symbols can be watched` }, { status: 400 })
+  }
+
+  const unknown = watched.find(
+    (symbol) => !isSymbol(symbol) || !SYMBOLS.includes(symbol) || !getInstrument(venue, symbol),
+  )
+  if (unknown !== undefined) {
+    return Response.json({ error: `${venue} does not list watched symbol "${unknown}"` }, { status: 400 })
+  }
+  return watched as Symbol[]
+}
+
+/**
+ * Stream normalized feed events for one venue and symbol as Server-Sent Events.
+ * The optional `channel` query parameter picks the venue's book channel, `watch` lists further symbols
+ * whose books are streamed alongside over the same upstream socket, and `regime` sets the server's mock market regime.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  const resolved = await resolveStream(context)
+  if (resolved instanceof Response) return resolved
+
+  const { venue, symbol } = resolved
+  const params = new URL(request.url).searchParams
+  const channel = params.get("channel") || undefined
+  const watchlist = parseWatchlist(venue, params)
+  if (watchlist instanceof Response) return watchlist
+  const regime = params.get("regime")
+  const mockRegime = regime && isMarketRegime(regime) ? regime : undefined
+  const encoder = new TextEncoder()
+
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const session = getServerFeedHub().connect((event: FeedEvent) => write(`data: ${JSON.stringify(event)}\n\n`))
+      const keepalive = setInterval(() => write(": keepalive\n\n"), SSE_KEEPALIVE_INTERVAL_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(keepalive)
+        session.dispose()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+
+      request.signal.addEventListener("abort", cleanup)
+
+      // Ask EventSource to wait a little before reconnecting after a dropped stream
+      write("retry: 3000\n\n")
+      session.handle({
+        type: "subscribe",
+        venues: [venue],
+        symbol,
+        channels: channel ? { [venue]: channel } : {},
+        watchlist,
+        mockRegime,
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx-style proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
+
+/**
+ * Skip the reconnection backoff of the server-side connection ("Retry now" in aggregated mode).
+ * Reconnects are shared by every client, so this is open only in development unless STREAM_RETRY_TOKEN is set.
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const denied = authorizeControlRequest(
+    request,
+    STREAM_RETRY_TOKEN,
+    "STREAM_RETRY_TOKEN",
+    "Retrying server connections",
+  )
+  if (denied) return denied
+
+  const resolved = await resolveStream(context)
+  if (resolved instanceof Response) return resolved
+
+  const { venue } = resolved
+  const channel = getBookChannel(venue, new URL(request.url).searchParams.get("channel") || undefined)
+
+  // Only a connection some stream already holds can be retried; opening one here would close it right away
+  if (!getServerFeedHub().retry(venue, channel.id)) {
+    return Response.json({ error: `No ${venue} ${channel.id} connection to retry` }, { status: 404 })
+  }
+
+  return new Response(null, { status: 204 })
+}
@@ -1,62 +1,135 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
 import { OrderbookDisplay } from "@/components/orderbook-display"
 import { OrderSimulationForm } from "@/components/order-simulation-form"
 import { MarketDepthChart } from "@/components/market-depth-chart"
 import { useOrderbookData } from "@/hooks/use-orderbook-data"
-import { useOrderSimulation } from "@/hooks/use-order-simulation"
-import type { Venue, Symbol, SimulatedOrder } from "@/types/trading"
+import { useOrderbook } from "@/hooks/use-orderbook-store"
+import { useOrderSimulation, getSimulationBlocker } from "@/hooks/use-order-simulation"
+import type { Venue, Symbol, SimulatedOrder, SizeUnit, VenueFeedSettings } from "@/types/trading"
 import { TimingComparison } from "@/components/timing-comparison"
+import { ReconnectStatus, describeReconnect } from "@/components/reconnect-status"
+import { LatencyPanel } from "@/components/latency-panel"
+import { TimeAndSales } from "@/components/time-and-sales"
+import { DerivativesPanel } from "@/components/derivatives-panel"
+import { Watchlist } from "@/components/watchlist"
+import { SizeUnitToggle } from "@/components/size-unit-toggle"
+import { VenueStatusDot, getStatusDotClass } from "@/components/venue-status-dot"
+import { RenderStats } from "@/components/render-stats"
+import { DiagnosticsDrawer } from "@/components/diagnostics-drawer"
+import { MockRegimeSelect } from "@/components/mock-regime-select"
+import { RecordingControls } from "@/components/recording-controls"
+import { ReplayTimeline } from "@/components/replay-timeline"
+import { FeedSettings, createDefaultFeedSettings, resolveDisplayDepths } from "@/components/feed-settings"
+import { VENUES } from "@/lib/venues"
+import { SYMBOLS } from "@/lib/symbols"
+import { displaySizeDecimals, minOrderSize, normalizeOrderbook, normalizeTrades } from "@/lib/instruments"
+import type { FeedMode } from "@/lib/feed/protocol"
+import type { ReplayCapture } from "@/lib/feed/replay"
+import type { MarketRegime } from "@/lib/synthetic-market"
+import { DEFAULT_MOCK_MARKET_SETTINGS } from "@/hooks/use-mock-data"
 
-const VENUES: Venue[] = ["OKX", "Bybit", "Deribit"]
-const SYMBOLS: Symbol[] = ["BTC-USD", "ETH-USD", "BTC-USDT", "ETH-USDT"]
+/** Deployments behind restrictive firewalls can default to streaming through the server */
+const DEFAULT_FEED_MODE: FeedMode = process.env.NEXT_PUBLIC_FEED_MODE === "aggregated" ? "aggregated" : "direct"
 
 export default function OrderbookViewer() {
   const [selectedVenue, setSelectedVenue] = useState<Venue>("OKX")
   const [selectedSymbol, setSelectedSymbol] = useState<Symbol>("BTC-USD")
+  const [watchlist, setWatchlist] = useState<Symbol[]>(["BTC-USD", "ETH-USD"])
   const [simulatedOrder, setSimulatedOrder] = useState<SimulatedOrder | null>(null)
   const [isComparingTimings, setIsComparingTimings] = useState(false)
+  const [feedMode, setFeedMode] = useState<FeedMode>(DEFAULT_FEED_MODE)
+  const [feedSettings, setFeedSettings] = useState<Record<Venue, VenueFeedSettings>>(createDefaultFeedSettings)
+  const [capture, setCapture] = useState<ReplayCapture | null>(null)
+  const [sizeUnit, setSizeUnit] = useState<SizeUnit>("base")
+  const [mockRegime, setMockRegime] = useState<MarketRegime>(DEFAULT_MOCK_MARKET_SETTINGS.regime)
+  // A loaded capture takes over from the live feed until it is closed
+  const activeMode: FeedMode = capture ? "replay" : feedMode
 
-  const { orderbooks, connectionStatus, error } = useOrderbookData(VENUES, selectedSymbol)
-  const { simulateOrder, orderMetrics } = useOrderSimulation()
+  // Only the channel choice reaches the feed; depths are applied when rendering
+  const channels = useMemo(
+    () => Object.fromEntries(VENUES.map((venue) => [venue, feedSettings[venue].channel])) as Record<Venue, string>,
+    [feedSettings],
+  )
+
+  const {
+    store,
+    diagnostics,
+    trades,
+    tickers,
+    connectionStatus,
+    reconnectState,
+    retryNow,
+    latencyStats,
+    checksumMismatches,
+    recordingStatus,
+    startRecording,
+    stopRecording,
+    replayState,
+    playReplay,
+    pauseReplay,
+    seekReplay,
+    setReplaySpeed,
+    error,
+  } = useOrderbookData(VENUES, selectedSymbol, channels, activeMode, capture, watchlist, mockRegime)
+  // Only the selected venue's book re-renders the page; the other venues are not on screen
+  const currentOrderbook = useOrderbook(store, selectedVenue, selectedSymbol)
+  const instrument = currentOrderbook?.instrument
 
-  const currentOrderbook = orderbooks[selectedVenue]
+  // Ladder, depth and tape show sizes in one unit so venues compare; the simulation keeps the venue's own units
+  const displayOrderbook = useMemo(
+    () => currentOrderbook && normalizeOrderbook(currentOrderbook, sizeUnit),
+    [currentOrderbook, sizeUnit],
+  )
+  const displayTrades = useMemo(
+    () => normalizeTrades(trades[selectedVenue], instrument, sizeUnit),
+    [trades, selectedVenue, instrument, sizeUnit],
+  )
+  const currentDepths = resolveDisplayDepths(selectedVenue, feedSettings[selectedVenue])
+  const { simulateOrder, orderMetrics, simulationError } = useOrderSimulation(currentOrderbook)
+
+  const handleCaptureLoad = (loaded: ReplayCapture) => {
+    // Jump to a symbol the capture actually contains
+    const captured = loaded.messages.find((message) => message.symbol !== null)?.symbol
+    if (captured && !loaded.messages.some((message) => message.symbol === selectedSymbol)) {
+      setSelectedSymbol(captured)
+    }
+    setCapture(loaded)
+  }
 
   const handleOrderSimulation = async (orderData: any) => {
-    const order = await simulateOrder({
+    const result = await simulateOrder({
       ...orderData,
       venue: selectedVenue,
       symbol: selectedSymbol,
     })
-    setSimulatedOrder(order)
+    setSimulatedOrder(result?.order ?? null)
   }
 
   const handleTimingComparison = async (timings: string[]) => {
+    if (getSimulationBlocker(currentOrderbook)) return []
+
     setIsComparingTimings(true)
     try {
+      // The smallest order the venue accepts, so every instrument can be compared
+      const quantity = instrument ? minOrderSize(instrument) : 0.1
       const results = await Promise.all(
         timings.map(async (timing) => {
-          const order = await simulateOrder({
+          const result = await simulateOrder({
             type: "limit",
             side: "buy",
             price: currentOrderbook?.asks[0]?.[0] || 50000,
-            quantity: 0.1,
+            quantity,
             timing,
             venue: selectedVenue,
             symbol: selectedSymbol,
           })
-          return (
-            orderMetrics || {
-              fillPercentage: Math.random() * 100,
-              marketImpact: Math.random() * 2,
-              slippage: Math.random() * 10,
-              estimatedFillTime: timing === "immediate" ? "<1s" : `${Math.floor(Math.random() * 30) + 1}s`,
-              warnings: [],
-            }
-          )
+          return result?.metrics ?? null
         }),
       )
       return results
@@ -71,104 +144,212 @@ export default function OrderbookViewer() {
         <div className="text-center space-y-2">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Real-Time Orderbook Viewer</h1>
           <p className="text-gray-600 dark:text-gray-400">Multi-venue orderbook analysis with order simulation</p>
+          <div className="flex items-center justify-center space-x-2">
+            <Switch
+              id="feed-mode"
+              checked={feedMode === "aggregated"}
+              onCheckedChange={(checked) => setFeedMode(checked ? "aggregated" : "direct")}
+              disabled={activeMode === "replay"}
+            />
+            <Label htmlFor="feed-mode" className="text-sm text-gray-600 dark:text-gray-400">
+              {activeMode === "replay"
+                ? "Replay: playing back a recorded capture"
+                : feedMode === "aggregated"
+                  ? "Aggregated: streaming through this server"
+                  : "Direct: browser connects to exchanges"}
+            </Label>
+            <MockRegimeSelect value={mockRegime} onChange={setMockRegime} disabled={activeMode === "replay"} />
+            <DiagnosticsDrawer
+              diagnostics={diagnostics}
+              feed={{ mode: activeMode, symbol: selectedSymbol, watchlist, channels }}
+              connectionStatus={connectionStatus}
+              reconnectState={reconnectState}
+              latencyStats={latencyStats}
+              checksumMismatches={checksumMismatches}
+              error={error}
+            />
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Orderbook Display */}
-          <div className="lg:col-span-2">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center justify-between">
-                  <span>Orderbook - {selectedSymbol}</span>
-                  <div className="flex items-center space-x-2">
-                    <div
-                      className={`w-2 h-2 rounded-full ${
-                        connectionStatus[selectedVenue] === "connected"
-                          ? "bg-green-500"
-                          : connectionStatus[selectedVenue] === "connecting"
-                            ? "bg-yellow-500"
-                            : "bg-red-500"
-                      }`}
-                    />
-                    <span className="text-sm text-gray-500">{connectionStatus[selectedVenue]}</span>
-                  </div>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Tabs value={selectedVenue} onValueChange={(value) => setSelectedVenue(value as Venue)}>
-                  <TabsList className="grid w-full grid-cols-3">
+        <RenderStats id="orderbook-viewer">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Orderbook Display */}
+            <div className="lg:col-span-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span>Orderbook - {selectedSymbol}</span>
+                    <div className="flex items-center space-x-2">
+                      <SizeUnitToggle value={sizeUnit} symbol={selectedSymbol} onChange={setSizeUnit} />
+                      <div
+                        className={`w-2 h-2 rounded-full ${getStatusDotClass(
+                          connectionStatus[selectedVenue],
+                          currentOrderbook?.source,
+                        )}`}
+                      />
+                      <span className="text-sm text-gray-500">{connectionStatus[selectedVenue]}</span>
+                      <ReconnectStatus
+                        state={reconnectState[selectedVenue]}
+                        onRetryNow={() => retryNow(selectedVenue)}
+                      />
+                      {checksumMismatches[selectedVenue] > 0 && (
+                        <span className="text-xs text-orange-500">
+                          {checksumMismatches[selectedVenue]} checksum resync
+                          {checksumMismatches[selectedVenue] > 1 ? "s" : ""}
+                        </span>
+                      )}
+                    </div>
+                  </CardTitle>
+                  <LatencyPanel venue={selectedVenue} stats={latencyStats[selectedVenue]} />
+                  <FeedSettings
+                    venue={selectedVenue}
+                    settings={feedSettings[selectedVenue]}
+                    onChange={(settings) => setFeedSettings((prev) => ({ ...prev, [selectedVenue]: settings }))}
+                  />
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ReplayTimeline
+                    capture={capture}
+                    state={replayState}
+                    onLoad={handleCaptureLoad}
+                    onClose={() => setCapture(null)}
+                    onPlay={playReplay}
+                    onPause={pauseReplay}
+                    onSeek={seekReplay}
+                    onSpeedChange={setReplaySpeed}
+                  />
+                  <Tabs value={selectedVenue} onValueChange={(value) => setSelectedVenue(value as Venue)}>
+                    <TabsList
+                      className="grid w-full"
+                      style={{ gridTemplateColumns: `repeat(${VENUES.length}, minmax(0, 1fr))` }}
+                    >
+                      {VENUES.map((venue) => (
+                        <TabsTrigger key={venue} value={venue} className="relative">
+                          {venue}
+                          <VenueStatusDot
+                            store={store}
+                            venue={venue}
+                            symbol={selectedSymbol}
+                            status={connectionStatus[venue]}
+                            title={describeReconnect(reconnectState[venue])}
+                            className="absolute top-1 right-1 w-1.5 h-1.5"
+                          />
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+
+                    {/* Hidden tabs render nothing; switching tabs shows the venue's latest book from the store */}
                     {VENUES.map((venue) => (
-                      <TabsTrigger key={venue} value={venue} className="relative">
-                        {venue}
-                        <div
-                          className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${
-                            connectionStatus[venue] === "connected"
-                              ? "bg-green-500"
-                              : connectionStatus[venue] === "connecting"
-                                ? "bg-yellow-500"
-                                : "bg-red-500"
-                          }`}
-                        />
-                      </TabsTrigger>
+                      <TabsContent
+                        key={venue}
+                        value={venue}
+                        className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_16rem] gap-4"
+                      >
+                        {venue === selectedVenue && (
+                          <>
+                            <OrderbookDisplay
+                              orderbook={displayOrderbook}
+                              simulatedOrder={simulatedOrder}
+                              venue={venue}
+                              symbol={selectedSymbol}
+                              depth={currentDepths.ladderDepth}
+                              lastTrade={displayTrades[0] ?? null}
+                              ticker={tickers[venue]}
+                            />
+                            <TimeAndSales
+                              venue={venue}
+                              trades={displayTrades}
+                              sizeDecimals={displaySizeDecimals(instrument, sizeUnit)}
+                            />
+                          </>
+                        )}
+                      </TabsContent>
                     ))}
-                  </TabsList>
-
-                  {VENUES.map((venue) => (
-                    <TabsContent key={venue} value={venue}>
-                      <OrderbookDisplay
-                        orderbook={orderbooks[venue]}
-                        simulatedOrder={selectedVenue === venue ? simulatedOrder : null}
-                        venue={venue}
-                        symbol={selectedSymbol}
-                      />
-                    </TabsContent>
-                  ))}
-                </Tabs>
-              </CardContent>
-            </Card>
-
-            {/* Market Depth Chart */}
-            <Card className="mt-6">
-              <CardHeader>
-                <CardTitle>Market Depth</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <MarketDepthChart orderbook={currentOrderbook} simulatedOrder={simulatedOrder} />
-              </CardContent>
-            </Card>
-          </div>
+                  </Tabs>
+                </CardContent>
+              </Card>
 
-          {/* Order Simulation Form */}
-          <div>
-            <Card>
-              <CardHeader>
-                <CardTitle>Order Simulation</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <OrderSimulationForm
-                  venues={VENUES}
-                  symbols={SYMBOLS}
-                  selectedVenue={selectedVenue}
-                  selectedSymbol={selectedSymbol}
-                  onVenueChange={setSelectedVenue}
-                  onSymbolChange={setSelectedSymbol}
-                  onOrderSimulation={handleOrderSimulation}
-                  orderMetrics={orderMetrics}
-                />
-              </CardContent>
-            </Card>
+              {/* Market Depth Chart */}
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Market Depth</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MarketDepthChart
+                    orderbook={displayOrderbook}
+                    simulatedOrder={simulatedOrder}
+                    depth={currentDepths.chartDepth}
+                  />
+                </CardContent>
+              </Card>
 
-            <TimingComparison onCompareTimings={handleTimingComparison} isComparing={isComparingTimings} />
+              {activeMode !== "replay" && <DerivativesPanel symbol={selectedSymbol} tickers={tickers} />}
+            </div>
 
-            {error && (
-              <Card className="mt-4 border-red-200 bg-red-50">
-                <CardContent className="pt-6">
-                  <p className="text-red-600 text-sm">{error}</p>
+            {/* Order Simulation Form */}
+            <div>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Order Simulation</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderSimulationForm
+                    venues={VENUES}
+                    symbols={SYMBOLS}
+                    selectedVenue={selectedVenue}
+                    selectedSymbol={selectedSymbol}
+                    onVenueChange={setSelectedVenue}
+                    onSymbolChange={setSelectedSymbol}
+                    onOrderSimulation={handleOrderSimulation}
+                    orderMetrics={orderMetrics}
+                    instrument={instrument}
+                  />
                 </CardContent>
               </Card>
-            )}
+
+              <Watchlist
+                symbols={SYMBOLS}
+                watchlist={watchlist}
+                selectedSymbol={selectedSymbol}
+                selectedVenue={selectedVenue}
+                store={store}
+                onWatchlistChange={setWatchlist}
+                onSymbolSelect={setSelectedSymbol}
+              />
+
+              <TimingComparison
+                onCompareTimings={handleTimingComparison}
+                isComparing={isComparingTimings}
+                disabledReason={getSimulationBlocker(currentOrderbook)}
+              />
+
+              {activeMode !== "replay" && (
+                <RecordingControls
+                  mode={activeMode}
+                  status={recordingStatus}
+                  onStart={startRecording}
+                  onStop={stopRecording}
+                />
+              )}
+
+              {simulationError && (
+                <Card className="mt-4 border-orange-200 bg-orange-50">
+                  <CardContent className="pt-6">
+                    <p className="text-orange-700 text-sm">{simulationError}</p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {error && (
+                <Card className="mt-4 border-red-200 bg-red-50">
+                  <CardContent className="pt-6">
+                    <p className="text-red-600 text-sm">{error}</p>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
           </div>
-        </div>
+        </RenderStats>
       </div>
     </div>
   )
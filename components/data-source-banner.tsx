@@ -0,0 +1,51 @@
+"use client"
+
+import { AlertTriangle, History, FlaskConical } from "lucide-react"
+import type { OrderbookSource } from "@/types/trading"
+
+interface DataSourceBannerProps {
+  source: OrderbookSource
+  venue?: string
+  timestamp?: number
+}
+
+/**
+ * Prominent notice for any book that is not a live venue feed. Renders nothing for live data.
+ */
+export function DataSourceBanner({ source, venue, timestamp }: DataSourceBannerProps) {
+  if (source === "live") return null
+
+  if (source === "mock") {
+    return (
+      <div className="flex items-center space-x-2 rounded-lg border-2 border-dashed border-purple-400 bg-purple-50 p-2 text-sm text-purple-800 dark:bg-purple-900/20 dark:text-purple-200">
+        <FlaskConical className="h-4 w-4 shrink-0" />
+        <span>
+          <span className="font-semibold">MOCK DATA</span> – synthetic book{venue ? `, not from ${venue}` : ""}. Prices
+          and sizes are randomly generated.
+        </span>
+      </div>
+    )
+  }
+
+  if (source === "stale") {
+    return (
+      <div className="flex items-center space-x-2 rounded-lg border-2 border-dashed border-amber-400 bg-amber-50 p-2 text-sm text-amber-800 dark:bg-amber-900/20 dark:text-amber-200">
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        <span>
+          <span className="font-semibold">STALE</span> – feed lost
+          {timestamp ? `, last update ${new Date(timestamp).toLocaleTimeString()}` : ""}. This book is no longer
+          updating.
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center space-x-2 rounded-lg border border-blue-300 bg-blue-50 p-2 text-sm text-blue-800 dark:bg-blue-900/20 dark:text-blue-200">
+      <History className="h-4 w-4 shrink-0" />
+      <span>
+        <span className="font-semibold">REPLAY</span> – recorded data, not the current market.
+      </span>
+    </div>
+  )
+}
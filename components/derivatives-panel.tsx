@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { VENUES, getVenueAdapter } from "@/lib/venues"
+import { calculateBasis, formatFundingCountdown } from "@/lib/derivatives"
+import type { DerivativesTicker, Symbol, Venue } from "@/types/trading"
+
+interface DerivativesPanelProps {
+  symbol: Symbol
+  tickers: Record<Venue, DerivativesTicker | null>
+}
+
+/** Venues whose adapters follow a perpetual swap ticker */
+const DERIVATIVES_VENUES = VENUES.filter((venue) => getVenueAdapter(venue).derivatives)
+
+const formatPrice = (price: number | null) => (price === null ? "—" : `$${price.toFixed(2)}`)
+
+const formatOpenInterest = (ticker: DerivativesTicker) => {
+  if (ticker.openInterest === null) return "—"
+  if (ticker.openInterestUnit === "base") return `${ticker.openInterest.toFixed(2)} ${ticker.symbol.split("-")[0]}`
+  return ticker.openInterest >= 1e6
+    ? `$${(ticker.openInterest / 1e6).toFixed(1)}M`
+    : `$${ticker.openInterest.toFixed(0)}`
+}
+
+/**
+ * Perpetual swap mark, index, funding and open interest per venue for the selected symbol
+ */
+export function DerivativesPanel({ symbol, tickers }: DerivativesPanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick the funding countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Perpetuals - {symbol.split("-")[0]}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-6 gap-x-3 gap-y-1 text-sm">
+          <span className="text-xs font-medium text-gray-500">Venue</span>
+          <span className="text-xs font-medium text-gray-500 text-right">Mark</span>
+          <span className="text-xs font-medium text-gray-500 text-right">Index</span>
+          <span className="text-xs font-medium text-gray-500 text-right">Basis</span>
+          <span className="text-xs font-medium text-gray-500 text-right">Funding</span>
+          <span className="text-xs font-medium text-gray-500 text-right">Open interest</span>
+
+          {DERIVATIVES_VENUES.map((venue) => {
+            const ticker = tickers[venue]
+            if (!ticker) {
+              return (
+                <div key={venue} className="contents">
+                  <span>{venue}</span>
+                  <span className="col-span-5 text-right text-xs text-gray-400">Waiting for ticker...</span>
+                </div>
+              )
+            }
+
+            const basis = calculateBasis(ticker)
+            return (
+              <div key={venue} className="contents">
+                <span title={ticker.instrument}>{venue}</span>
+                <span className="font-mono text-right">{formatPrice(ticker.markPrice)}</span>
+                <span className="font-mono text-right">{formatPrice(ticker.indexPrice)}</span>
+                <span
+                  className={`font-mono text-right ${basis && basis.value < 0 ? "text-red-600" : "text-green-600"}`}
+                >
+                  {basis ? `${basis.bps >= 0 ? "+" : ""}${basis.bps.toFixed(1)} bps` : "—"}
+                </span>
+                <span className="font-mono text-right">
+                  {ticker.fundingRate === null ? (
+                    "—"
+                  ) : (
+                    <span className={ticker.fundingRate < 0 ? "text-red-600" : "text-green-600"}>
+                      {(ticker.fundingRate * 100).toFixed(4)}%
+                    </span>
+                  )}
+                  {ticker.nextFundingTime !== null && (
+                    <span className="block text-xs text-gray-500">
+                      in {formatFundingCountdown(ticker.nextFundingTime, now)}
+                    </span>
+                  )}
+                </span>
+                <span className="font-mono text-right">{formatOpenInterest(ticker)}</span>
+              </div>
+            )
+          })}
+        </div>
+        <p className="mt-3 text-xs text-gray-400">
+          Linear USDT perpetuals on OKX and Bybit, the inverse perpetual on Deribit. Basis is mark minus index.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
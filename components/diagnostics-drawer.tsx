@@ -0,0 +1,221 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import { Download, Stethoscope } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { VENUES } from "@/lib/venues"
+import { downloadBlob } from "@/lib/utils"
+import {
+  createDiagnosticBundle,
+  type ConnectionDiagnostics,
+  type DiagnosticBundle,
+  type DiagnosticsStore,
+} from "@/lib/feed/diagnostics"
+import type { LatencyStats } from "@/lib/feed/latency-stats"
+import type { ReconnectState } from "@/lib/feed/reconnect"
+import type { ConnectionStatus, Venue } from "@/types/trading"
+
+interface DiagnosticsDrawerProps {
+  diagnostics: DiagnosticsStore
+  feed: DiagnosticBundle["feed"]
+  connectionStatus: Record<Venue, ConnectionStatus>
+  reconnectState: Record<Venue, ReconnectState>
+  latencyStats: Record<Venue, LatencyStats | null>
+  checksumMismatches: Record<Venue, number>
+  error: string | null
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
+const formatAge = (timestamp: number | null, now: number) => {
+  if (timestamp === null) return "never"
+  const age = Math.max(0, now - timestamp)
+  if (age < 1000) return `${age}ms ago`
+  if (age < 60000) return `${(age / 1000).toFixed(1)}s ago`
+  return `${Math.floor(age / 60000)}m ${Math.floor((age % 60000) / 1000)}s ago`
+}
+
+/** A socket silent for longer than this while open is flagged, since every venue streams at least heartbeats */
+const SILENT_AFTER_MS = 10000
+
+const getStatusClass = (status: ConnectionStatus) => {
+  if (status === "connected") return "border-green-500 text-green-600"
+  if (status === "connecting" || status === "resyncing") return "border-yellow-500 text-yellow-600"
+  if (status === "mock") return "border-purple-500 text-purple-600"
+  return "border-red-500 text-red-600"
+}
+
+function DiagnosticsRow({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div className="contents">
+      <span className="text-gray-500">{label}</span>
+      <span className={`font-mono text-right ${warn ? "text-red-600" : ""}`}>{value}</span>
+    </div>
+  )
+}
+
+function ConnectionCard({ connection }: { connection: ConnectionDiagnostics }) {
+  // Reports arrive every second, so ages are as fresh as the last report
+  const now = connection.reportedAt
+  const silent =
+    connection.connectedAt !== null && now - (connection.lastMessageAt ?? connection.connectedAt) > SILENT_AFTER_MS
+  const { lastError } = connection
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-sm">
+          {connection.venue} · {connection.kind === "ticker" ? "ticker" : connection.channel}
+        </span>
+        <Badge variant="outline" className={getStatusClass(connection.status)}>
+          {connection.status}
+        </Badge>
+      </div>
+      <div className="text-gray-500 break-all">{connection.url}</div>
+      {connection.instruments.length > 0 && <div className="text-gray-500">{connection.instruments.join(", ")}</div>}
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+        <DiagnosticsRow label="Messages/s" value={connection.messagesPerSecond.toFixed(1)} />
+        <DiagnosticsRow label="Messages" value={connection.messagesReceived.toLocaleString()} />
+        <DiagnosticsRow label="Received" value={formatBytes(connection.bytesReceived)} />
+        <DiagnosticsRow label="Last message" value={formatAge(connection.lastMessageAt, now)} warn={silent} />
+        <DiagnosticsRow
+          label="Connected"
+          value={connection.connectedAt === null ? "no" : formatAge(connection.connectedAt, now)}
+        />
+        <DiagnosticsRow label="Reconnects" value={String(connection.reconnects)} warn={connection.reconnects > 0} />
+        <DiagnosticsRow
+          label="Subscription acks"
+          value={`${connection.subscriptionAcks}${connection.lastAckAt ? ` (${formatAge(connection.lastAckAt, now)})` : ""}`}
+        />
+        <DiagnosticsRow
+          label="Heartbeat RTT"
+          value={connection.heartbeatRtt === null ? "n/a" : `${connection.heartbeatRtt}ms`}
+        />
+      </div>
+
+      {lastError && (
+        <div className="rounded bg-red-50 dark:bg-red-900/20 p-2 text-red-700 dark:text-red-300">
+          <div className="font-medium">
+            {lastError.message} · {formatAge(lastError.at, now)}
+          </div>
+          {lastError.code !== undefined && (
+            <div className="font-mono">
+              Close code {lastError.code}
+              {lastError.reason ? `: ${lastError.reason}` : " (no reason given)"}
+            </div>
+          )}
+        </div>
+      )}
+
+      {connection.events.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-500">Events ({connection.events.length})</summary>
+          <ul className="mt-1 max-h-40 overflow-y-auto space-y-0.5 font-mono">
+            {[...connection.events].reverse().map((event, index) => (
+              <li key={`${event.at}-${index}`}>
+                <span className="text-gray-500">{new Date(event.at).toLocaleTimeString()}</span> {event.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Per-connection health read from the feed, rendered only while the drawer is open
+ */
+function DiagnosticsList({ diagnostics }: { diagnostics: DiagnosticsStore }) {
+  const connections = useSyncExternalStore(diagnostics.subscribe, diagnostics.getSnapshot, diagnostics.getSnapshot)
+  const sorted = Object.values(connections).sort((a, b) => a.id.localeCompare(b.id))
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-gray-500">No open connections. Replay does not use any.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {sorted.map((connection) => (
+        <ConnectionCard key={connection.id} connection={connection} />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Drawer with the health of every book and ticker socket: traffic, acks, heartbeats, reconnects, the
+ * last failure with its close code and a log of recent events. The export button saves it, with the UI's view of each venue, as JSON
+ * to attach to bug reports. In aggregated mode the sockets are the server's.
+ */
+export function DiagnosticsDrawer({
+  diagnostics,
+  feed,
+  connectionStatus,
+  reconnectState,
+  latencyStats,
+  checksumMismatches,
+  error,
+}: DiagnosticsDrawerProps) {
+  const exportBundle = () => {
+    const venues = Object.fromEntries(
+      VENUES.map((venue) => [
+        venue,
+        {
+          status: connectionStatus[venue],
+          reconnect: reconnectState[venue],
+          latency: latencyStats[venue],
+          checksumMismatches: checksumMismatches[venue],
+        },
+      ]),
+    )
+    const bundle = createDiagnosticBundle(diagnostics.getSnapshot(), feed, venues, error)
+    const fileName = `orderbook-diagnostics-${bundle.generatedAt.replace(/[:.]/g, "-")}.json`
+    downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }), fileName)
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Stethoscope className="h-4 w-4 mr-1" />
+          Diagnostics
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Connection diagnostics</SheetTitle>
+          <SheetDescription>
+            {feed.mode === "aggregated"
+              ? "The server's sockets behind this page, updated every second"
+              : "Book and ticker sockets behind this page, updated every second"}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="py-4">
+          <DiagnosticsList diagnostics={diagnostics} />
+        </div>
+        <SheetFooter>
+          <Button variant="outline" size="sm" onClick={exportBundle}>
+            <Download className="h-4 w-4 mr-1" />
+            Export JSON
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MAX_PUBLISH_DEPTH } from "@/lib/local-orderbook"
+import { VENUES, getBookChannel, getVenueAdapter } from "@/lib/venues"
+import type { Venue, VenueFeedSettings } from "@/types/trading"
+
+export const DEFAULT_LADDER_DEPTH = 15
+export const DEFAULT_CHART_DEPTH = 25
+
+const DEPTH_OPTIONS = [5, 10, 15, 25, 50, 100, 200]
+
+interface FeedSettingsProps {
+  venue: Venue
+  settings: VenueFeedSettings
+  onChange: (settings: VenueFeedSettings) => void
+}
+
+/**
+ * Default channel and depths for every venue
+ */
+export const createDefaultFeedSettings = (): Record<Venue, VenueFeedSettings> =>
+  Object.fromEntries(
+    VENUES.map((venue) => [
+      venue,
+      {
+        channel: getVenueAdapter(venue).defaultChannel,
+        ladderDepth: DEFAULT_LADDER_DEPTH,
+        chartDepth: DEFAULT_CHART_DEPTH,
+      },
+    ]),
+  ) as Record<Venue, VenueFeedSettings>
+
+/**
+ * Most levels per side the selected channel can deliver to the UI
+ */
+export const getMaxDisplayDepth = (venue: Venue, channel: string): number =>
+  Math.min(getBookChannel(venue, channel).depth ?? MAX_PUBLISH_DEPTH, MAX_PUBLISH_DEPTH)
+
+/**
+ * Ladder and chart depths clamped to what the selected channel delivers
+ */
+export const resolveDisplayDepths = (venue: Venue, settings: VenueFeedSettings) => {
+  const maxDepth = getMaxDisplayDepth(venue, settings.channel)
+  return {
+    ladderDepth: Math.min(settings.ladderDepth, maxDepth),
+    chartDepth: Math.min(settings.chartDepth, maxDepth),
+  }
+}
+
+export function FeedSettings({ venue, settings, onChange }: FeedSettingsProps) {
+  const adapter = getVenueAdapter(venue)
+  const maxDepth = getMaxDisplayDepth(venue, settings.channel)
+  const depthOptions = [...DEPTH_OPTIONS.filter((depth) => depth < maxDepth), maxDepth]
+  const { ladderDepth, chartDepth } = resolveDisplayDepths(venue, settings)
+
+  return (
+    <div className="grid grid-cols-3 gap-2 text-xs">
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">{venue} channel</Label>
+        <Select value={settings.channel} onValueChange={(channel) => onChange({ ...settings, channel })}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {adapter.channels.map((channel) => (
+              <SelectItem key={channel.id} value={channel.id} className="text-xs">
+                {channel.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Ladder levels</Label>
+        <Select
+          value={String(ladderDepth)}
+          onValueChange={(value) => onChange({ ...settings, ladderDepth: Number(value) })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {depthOptions.map((depth) => (
+              <SelectItem key={depth} value={String(depth)} className="text-xs">
+                {depth}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Chart levels</Label>
+        <Select
+          value={String(chartDepth)}
+          onValueChange={(value) => onChange({ ...settings, chartDepth: Number(value) })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {depthOptions.map((depth) => (
+              <SelectItem key={depth} value={String(depth)} className="text-xs">
+                {depth}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { Activity } from "lucide-react"
+import type { LatencyStats, Percentiles } from "@/lib/feed/latency-stats"
+import type { Venue } from "@/types/trading"
+
+interface LatencyPanelProps {
+  venue: Venue
+  stats: LatencyStats | null
+}
+
+const formatMs = (value: number) =>
+  Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`
+
+const getLatencyColor = (p90: number): string => {
+  if (p90 > 500) return "text-red-600"
+  if (p90 > 150) return "text-yellow-600"
+  return "text-green-600"
+}
+
+function PercentileRow({ label, values, colored }: { label: string; values: Percentiles | null; colored?: boolean }) {
+  return (
+    <div className="contents">
+      <span className="text-gray-500">{label}</span>
+      {values ? (
+        <>
+          <span className={`font-mono text-right ${colored ? getLatencyColor(values.p90) : ""}`}>
+            {formatMs(values.p50)}
+          </span>
+          <span className={`font-mono text-right ${colored ? getLatencyColor(values.p90) : ""}`}>
+            {formatMs(values.p90)}
+          </span>
+          <span className="font-mono text-right">{formatMs(values.p99)}</span>
+          <span className="font-mono text-right text-gray-500">{formatMs(values.max)}</span>
+        </>
+      ) : (
+        <span className="col-span-4 text-right text-gray-400">n/a</span>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Feed quality for one venue: exchange-to-receive latency and spacing between updates
+ */
+export function LatencyPanel({ venue, stats }: LatencyPanelProps) {
+  if (!stats || stats.samples === 0) {
+    return (
+      <div className="flex items-center text-xs text-gray-400">
+        <Activity className="h-3 w-3 mr-1" />
+        Waiting for {venue} updates...
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 p-2 rounded-lg text-xs">
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center font-medium">
+          <Activity className="h-3 w-3 mr-1" />
+          Feed latency
+        </span>
+        <span className="text-gray-500">
+          {stats.updatesPerSecond.toFixed(1)} upd/s · last {stats.samples}
+        </span>
+      </div>
+      <div className="grid grid-cols-5 gap-x-3 gap-y-0.5">
+        <span />
+        <span className="text-right text-gray-400">p50</span>
+        <span className="text-right text-gray-400">p90</span>
+        <span className="text-right text-gray-400">p99</span>
+        <span className="text-right text-gray-400">max</span>
+        <PercentileRow label="Latency" values={stats.latency} colored />
+        {stats.matchLatency && <PercentileRow label="Engine" values={stats.matchLatency} colored />}
+        <PercentileRow label="Interval" values={stats.interval} />
+      </div>
+      {stats.latency && stats.latency.p50 < 0 && (
+        <p className="mt-1 text-orange-600">Negative latency: the local clock is behind {venue}&apos;s clock</p>
+      )}
+    </div>
+  )
+}
@@ -3,10 +3,14 @@
 import { useMemo } from "react"
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts"
 import type { Orderbook, SimulatedOrder } from "@/types/trading"
+import { DataSourceBanner } from "@/components/data-source-banner"
+import { displaySizeDecimals, unitLabel } from "@/lib/instruments"
 
 interface MarketDepthChartProps {
   orderbook: Orderbook | null
   simulatedOrder: SimulatedOrder | null
+  /** Levels per side plotted */
+  depth?: number
 }
 
 interface DepthPoint {
@@ -18,7 +22,13 @@ interface DepthPoint {
   cumulativeAskVolume: number
 }
 
-export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChartProps) {
+export function MarketDepthChart({ orderbook, simulatedOrder, depth = 25 }: MarketDepthChartProps) {
+  // Cumulative volume is in whatever unit the book's sizes were normalized to
+  const spec = orderbook?.instrument
+  const sizeUnit = orderbook?.sizeUnit ?? spec?.sizeUnit
+  const sizeDecimals = displaySizeDecimals(spec, sizeUnit)
+  const volumeUnit = spec && sizeUnit ? unitLabel(spec, sizeUnit) : "units"
+
   const { chartData, midPrice, maxDepth, spreadInfo } = useMemo(() => {
     if (!orderbook || !orderbook.bids.length || !orderbook.asks.length) {
       return { chartData: [], midPrice: 0, maxDepth: 0, spreadInfo: null }
@@ -27,12 +37,12 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
     try {
       const validBids = orderbook.bids
         .filter(([price, size]) => !isNaN(price) && !isNaN(size) && price > 0 && size > 0)
-        .slice(0, 25)
+        .slice(0, depth)
         .sort((a, b) => b[0] - a[0])
 
       const validAsks = orderbook.asks
         .filter(([price, size]) => !isNaN(price) && !isNaN(size) && price > 0 && size > 0)
-        .slice(0, 25)
+        .slice(0, depth)
         .sort((a, b) => a[0] - b[0])
 
       if (validBids.length === 0 || validAsks.length === 0) {
@@ -110,7 +120,7 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
       console.error("Error processing depth chart data:", error)
       return { chartData: [], midPrice: 0, maxDepth: 0, spreadInfo: null }
     }
-  }, [orderbook])
+  }, [orderbook, depth])
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -118,8 +128,16 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
       return (
         <div className="bg-white dark:bg-gray-800 p-3 border rounded-lg shadow-lg">
           <p className="font-medium">${Number(label).toFixed(2)}</p>
-          {data.bidDepth > 0 && <p className="text-green-600">Bid Depth: {data.bidDepth.toFixed(4)}</p>}
-          {data.askDepth > 0 && <p className="text-red-600">Ask Depth: {data.askDepth.toFixed(4)}</p>}
+          {data.bidDepth > 0 && (
+            <p className="text-green-600">
+              Bid Depth: {data.bidDepth.toFixed(sizeDecimals)} {volumeUnit}
+            </p>
+          )}
+          {data.askDepth > 0 && (
+            <p className="text-red-600">
+              Ask Depth: {data.askDepth.toFixed(sizeDecimals)} {volumeUnit}
+            </p>
+          )}
           {data.side === "spread" && <p className="text-gray-500">Spread Area</p>}
         </div>
       )
@@ -137,6 +155,8 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
 
   return (
     <div className="space-y-4">
+      <DataSourceBanner source={orderbook.source} timestamp={orderbook.timestamp} />
+
       {/* Depth Chart Info */}
       {spreadInfo && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -162,7 +182,19 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
       )}
 
       {/* Enhanced Depth Chart */}
-      <div className="h-80">
+      <div className="h-80 relative">
+        {/* Watermark so screenshots of synthetic or frozen depth cannot pass as live */}
+        {(orderbook.source === "mock" || orderbook.source === "stale") && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+            <span
+              className={`text-6xl font-black tracking-widest opacity-20 -rotate-12 ${
+                orderbook.source === "mock" ? "text-purple-600" : "text-amber-600"
+              }`}
+            >
+              {orderbook.source.toUpperCase()}
+            </span>
+          </div>
+        )}
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
             <defs>
@@ -190,7 +222,7 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
             <YAxis
               tickFormatter={(value) => value.toFixed(2)}
               tick={{ fontSize: 12 }}
-              label={{ value: "Cumulative Volume", angle: -90, position: "insideLeft" }}
+              label={{ value: `Cumulative Volume (${volumeUnit})`, angle: -90, position: "insideLeft" }}
             />
 
             <Tooltip content={<CustomTooltip />} />
@@ -244,7 +276,8 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
         <div className="bg-green-50 dark:bg-green-900/20 p-3 rounded-lg">
           <div className="font-medium text-green-800 dark:text-green-200">Bid Side Liquidity</div>
           <div className="text-green-600 dark:text-green-400">
-            Total: {chartData.find((d) => d.side === "bid")?.cumulativeBidVolume?.toFixed(4) || "0"} units
+            Total: {chartData.find((d) => d.side === "bid")?.cumulativeBidVolume?.toFixed(sizeDecimals) || "0"}{" "}
+            {volumeUnit}
           </div>
           <div className="text-xs text-green-500 mt-1">
             Support at ${chartData.find((d) => d.bidDepth > 0)?.price?.toFixed(2) || "0"}
@@ -266,7 +299,8 @@ export function MarketDepthChart({ orderbook, simulatedOrder }: MarketDepthChart
         <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
           <div className="font-medium text-red-800 dark:text-red-200">Ask Side Liquidity</div>
           <div className="text-red-600 dark:text-red-400">
-            Total: {chartData.find((d) => d.side === "ask")?.cumulativeAskVolume?.toFixed(4) || "0"} units
+            Total: {chartData.find((d) => d.side === "ask")?.cumulativeAskVolume?.toFixed(sizeDecimals) || "0"}{" "}
+            {volumeUnit}
           </div>
           <div className="text-xs text-red-500 mt-1">
             Resistance at ${chartData.find((d) => d.askDepth > 0)?.price?.toFixed(2) || "0"}
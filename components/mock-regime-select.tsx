@@ -0,0 +1,39 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MARKET_REGIMES, type MarketRegime } from "@/lib/synthetic-market"
+
+interface MockRegimeSelectProps {
+  value: MarketRegime
+  onChange: (regime: MarketRegime) => void
+  disabled?: boolean
+}
+
+const REGIME_LABELS: Record<MarketRegime, string> = {
+  calm: "Calm",
+  trending: "Trending",
+  "high-volatility": "High volatility",
+  "thin-liquidity": "Thin liquidity",
+  "flash-crash": "Flash crash",
+}
+
+/**
+ * Market conditions of the synthetic books shown for venues that fell back to mock data.
+ * Takes effect on the next mock book without resetting it.
+ */
+export function MockRegimeSelect({ value, onChange, disabled }: MockRegimeSelectProps) {
+  return (
+    <Select value={value} onValueChange={(regime) => onChange(regime as MarketRegime)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-40 text-xs" title="Market conditions of mock books">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MARKET_REGIMES.map((regime) => (
+          <SelectItem key={regime} value={regime} className="text-xs">
+            Mock: {REGIME_LABELS[regime]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
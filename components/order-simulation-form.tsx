@@ -11,7 +11,8 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { AlertTriangle, TrendingUp, Clock, Percent } from "lucide-react"
-import type { Venue, Symbol, OrderType, OrderSide, OrderMetrics } from "@/types/trading"
+import { sizeUnitLabel } from "@/lib/instruments"
+import type { Venue, Symbol, OrderType, OrderSide, OrderMetrics, InstrumentSpec } from "@/types/trading"
 
 interface OrderSimulationFormProps {
   venues: Venue[]
@@ -22,6 +23,8 @@ interface OrderSimulationFormProps {
   onSymbolChange: (symbol: Symbol) => void
   onOrderSimulation: (orderData: any) => void
   orderMetrics: OrderMetrics | null
+  /** Instrument of the selected venue's book, for price and quantity units and increments */
+  instrument?: InstrumentSpec | null
 }
 
 export function OrderSimulationForm({
@@ -33,6 +36,7 @@ export function OrderSimulationForm({
   onSymbolChange,
   onOrderSimulation,
   orderMetrics,
+  instrument = null,
 }: OrderSimulationFormProps) {
   const [orderType, setOrderType] = useState<OrderType>("limit")
   const [side, setSide] = useState<OrderSide>("buy")
@@ -134,10 +138,10 @@ export function OrderSimulationForm({
         {/* Price (for limit orders) */}
         {orderType === "limit" && (
           <div className="space-y-2">
-            <Label>Price ($)</Label>
+            <Label>Price ({instrument?.quote ?? "$"})</Label>
             <Input
               type="number"
-              step="0.01"
+              step={instrument?.tickSize ?? 0.01}
               value={price}
               onChange={(e) => setPrice(e.target.value)}
               placeholder="Enter limit price"
@@ -147,14 +151,22 @@ export function OrderSimulationForm({
 
         {/* Quantity */}
         <div className="space-y-2">
-          <Label>Quantity</Label>
+          <Label>Quantity{instrument && ` (${sizeUnitLabel(instrument)})`}</Label>
           <Input
             type="number"
-            step="0.0001"
+            step={instrument?.lotSize ?? 0.0001}
+            min={instrument?.minSize}
             value={quantity}
             onChange={(e) => setQuantity(e.target.value)}
             placeholder="Enter quantity"
           />
+          {instrument && (
+            <p className="text-xs text-gray-500">
+              {instrument.instrument} ({instrument.kind}): min {instrument.minSize}, step {instrument.lotSize}
+              {instrument.sizeUnit !== "base" &&
+                `, ${instrument.contractValue} ${instrument.contractCurrency} per contract`}
+            </p>
+          )}
         </div>
 
         {/* Timing */}
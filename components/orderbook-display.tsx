@@ -3,13 +3,22 @@
 import { useMemo } from "react"
 import { Badge } from "@/components/ui/badge"
 import { AlertCircle } from "lucide-react"
-import type { Orderbook, SimulatedOrder, Venue, Symbol } from "@/types/trading"
+import { DataSourceBanner } from "@/components/data-source-banner"
+import { calculateBasis } from "@/lib/derivatives"
+import { displaySizeDecimals, unitLabel } from "@/lib/instruments"
+import type { DerivativesTicker, Orderbook, SimulatedOrder, Trade, Venue, Symbol } from "@/types/trading"
 
 interface OrderbookDisplayProps {
   orderbook: Orderbook | null
   simulatedOrder: SimulatedOrder | null
   venue: Venue
   symbol: Symbol
+  /** Levels per side shown in the ladder */
+  depth?: number
+  /** Most recent trade, marked on the ladder at its price */
+  lastTrade?: Trade | null
+  /** Perpetual ticker of the venue, for the basis next to the mid */
+  ticker?: DerivativesTicker | null
 }
 
 const calculateBidPressure = (orderbook: Orderbook): number => {
@@ -36,7 +45,24 @@ const getImbalanceColor = (imbalance: number): string => {
   return "bg-yellow-500"
 }
 
-export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: OrderbookDisplayProps) {
+const LAST_TRADE_ROW_CLASS = "bg-yellow-50 ring-1 ring-inset ring-yellow-400 dark:bg-yellow-900/20"
+
+export function OrderbookDisplay({
+  orderbook,
+  simulatedOrder,
+  venue,
+  symbol,
+  depth = 15,
+  lastTrade = null,
+  ticker = null,
+}: OrderbookDisplayProps) {
+  const basis = calculateBasis(ticker)
+  // Books carry their instrument; without one (e.g. older captures) fall back to cents and 4 decimals
+  const spec = orderbook?.instrument
+  const sizeUnit = orderbook?.sizeUnit ?? spec?.sizeUnit
+  const sizeDecimals = displaySizeDecimals(spec, sizeUnit)
+  const formatPrice = (price: number) => `$${price.toFixed(spec?.priceDecimals ?? 2)}`
+
   const { bids, asks, spread, midPrice, isValidData } = useMemo(() => {
     if (!orderbook || !orderbook.bids.length || !orderbook.asks.length) {
       return { bids: [], asks: [], spread: 0, midPrice: 0, isValidData: false }
@@ -45,11 +71,11 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
     try {
       const validBids = orderbook.bids
         .filter(([price, size]) => !isNaN(price) && !isNaN(size) && price > 0 && size > 0)
-        .slice(0, 15)
+        .slice(0, depth)
 
       const validAsks = orderbook.asks
         .filter(([price, size]) => !isNaN(price) && !isNaN(size) && price > 0 && size > 0)
-        .slice(0, 15)
+        .slice(0, depth)
 
       if (validBids.length === 0 || validAsks.length === 0) {
         return { bids: [], asks: [], spread: 0, midPrice: 0, isValidData: false }
@@ -71,7 +97,7 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
       console.error("Error processing orderbook data:", error)
       return { bids: [], asks: [], spread: 0, midPrice: 0, isValidData: false }
     }
-  }, [orderbook])
+  }, [orderbook, depth])
 
   const getOrderPosition = (price: number, side: "buy" | "sell") => {
     if (!simulatedOrder || simulatedOrder.side !== side || !isValidData) return null
@@ -97,7 +123,9 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto mb-4"></div>
           <p>Connecting to {venue}...</p>
           <p className="text-xs mt-2">{symbol}</p>
-          <p className="text-xs text-gray-400 mt-1">If connection fails, mock data will be used for demonstration</p>
+          <p className="text-xs text-gray-400 mt-1">
+            If every reconnection attempt fails, clearly marked mock data is shown instead
+          </p>
         </div>
       </div>
     )
@@ -117,18 +145,51 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
 
   return (
     <div className="space-y-4">
+      <DataSourceBanner source={orderbook.source} venue={venue} timestamp={orderbook.timestamp} />
+
       {/* Market Info */}
       <div className="flex justify-between items-center text-sm">
         <div className="flex space-x-4">
           <span>
-            Mid: <span className="font-mono">${midPrice.toFixed(2)}</span>
+            Mid: <span className="font-mono">{formatPrice(midPrice)}</span>
           </span>
+          {basis && (
+            <span title={`${ticker?.instrument} mark minus index`}>
+              Basis:{" "}
+              <span className={`font-mono ${basis.value < 0 ? "text-red-600" : "text-green-600"}`}>
+                {basis.value >= 0 ? "+" : "-"}${Math.abs(basis.value).toFixed(2)} ({basis.bps.toFixed(1)} bps)
+              </span>
+            </span>
+          )}
           <span>
-            Spread: <span className="font-mono">${spread.toFixed(2)}</span>
+            Spread: <span className="font-mono">{formatPrice(spread)}</span>
           </span>
         </div>
         <div className="flex items-center space-x-2">
           <Badge variant="outline">{venue}</Badge>
+          {spec && (
+            <Badge
+              variant="outline"
+              title={`Tick ${spec.tickSize}, lot ${spec.lotSize}, min ${spec.minSize} (${spec.source === "venue" ? "from the venue" : "bundled listing"})`}
+            >
+              {spec.instrument}
+              {spec.kind !== "spot" && ` · ${spec.kind}`}
+            </Badge>
+          )}
+          {orderbook.source !== "live" && (
+            <Badge
+              variant="outline"
+              className={
+                orderbook.source === "mock"
+                  ? "border-purple-500 text-purple-600"
+                  : orderbook.source === "stale"
+                    ? "border-amber-500 text-amber-600"
+                    : "border-blue-500 text-blue-600"
+              }
+            >
+              {orderbook.source.toUpperCase()}
+            </Badge>
+          )}
           {orderbook.timestamp && (
             <span className="text-xs text-gray-400">{new Date(orderbook.timestamp).toLocaleTimeString()}</span>
           )}
@@ -157,18 +218,21 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
       </div>
 
       {/* Orderbook */}
-      <div className="grid grid-cols-1 gap-4">
+      <div
+        className={`grid grid-cols-1 gap-4 ${orderbook.source === "mock" || orderbook.source === "stale" ? "opacity-60" : ""}`}
+      >
         {/* Asks */}
         <div className="space-y-1">
           <div className="grid grid-cols-3 text-xs font-medium text-gray-500 px-2">
-            <span>Price</span>
-            <span className="text-right">Size</span>
+            <span>Price{spec && ` (${spec.quote})`}</span>
+            <span className="text-right">Size{spec && sizeUnit && ` (${unitLabel(spec, sizeUnit)})`}</span>
             <span className="text-right">Total</span>
           </div>
 
           {asks.map(([price, size], index) => {
             const isSimulatedOrder =
               simulatedOrder?.side === "sell" && getOrderPosition(price, "sell") === asks.length - 1 - index
+            const isLastTrade = lastTrade?.price === price
 
             return (
               <div
@@ -176,16 +240,19 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
                 className={`grid grid-cols-3 text-sm py-1 px-2 rounded transition-colors ${
                   isSimulatedOrder
                     ? "bg-blue-100 border-2 border-blue-400 dark:bg-blue-900/30 dark:border-blue-500"
-                    : "hover:bg-red-50 dark:hover:bg-red-900/20"
+                    : isLastTrade
+                      ? LAST_TRADE_ROW_CLASS
+                      : "hover:bg-red-50 dark:hover:bg-red-900/20"
                 }`}
+                title={isLastTrade ? "Last trade price" : undefined}
               >
-                <span className="font-mono text-red-600">${price.toFixed(2)}</span>
-                <span className="font-mono text-right">{size.toFixed(4)}</span>
+                <span className="font-mono text-red-600">{formatPrice(price)}</span>
+                <span className="font-mono text-right">{size.toFixed(sizeDecimals)}</span>
                 <span className="font-mono text-right text-gray-500">
                   {asks
                     .slice(asks.length - 1 - index)
                     .reduce((sum, [, s]) => sum + s, 0)
-                    .toFixed(4)}
+                    .toFixed(sizeDecimals)}
                 </span>
               </div>
             )
@@ -195,14 +262,24 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
         {/* Spread */}
         <div className="border-t border-b py-2 text-center">
           <span className="text-sm text-gray-500">
-            Spread: ${spread.toFixed(2)} ({spread > 0 ? ((spread / midPrice) * 100).toFixed(3) : "0.000"}%)
+            Spread: {formatPrice(spread)} ({spread > 0 ? ((spread / midPrice) * 100).toFixed(3) : "0.000"}%)
           </span>
+          {/* The last trade often consumed its level, so its price is shown here as well */}
+          {lastTrade && (
+            <span className="text-sm text-gray-500 ml-3">
+              Last:{" "}
+              <span className={`font-mono ${lastTrade.side === "buy" ? "text-green-600" : "text-red-600"}`}>
+                {formatPrice(lastTrade.price)}
+              </span>
+            </span>
+          )}
         </div>
 
         {/* Bids */}
         <div className="space-y-1">
           {bids.map(([price, size], index) => {
             const isSimulatedOrder = simulatedOrder?.side === "buy" && getOrderPosition(price, "buy") === index
+            const isLastTrade = lastTrade?.price === price
 
             return (
               <div
@@ -210,16 +287,19 @@ export function OrderbookDisplay({ orderbook, simulatedOrder, venue, symbol }: O
                 className={`grid grid-cols-3 text-sm py-1 px-2 rounded transition-colors ${
                   isSimulatedOrder
                     ? "bg-blue-100 border-2 border-blue-400 dark:bg-blue-900/30 dark:border-blue-500"
-                    : "hover:bg-green-50 dark:hover:bg-green-900/20"
+                    : isLastTrade
+                      ? LAST_TRADE_ROW_CLASS
+                      : "hover:bg-green-50 dark:hover:bg-green-900/20"
                 }`}
+                title={isLastTrade ? "Last trade price" : undefined}
               >
-                <span className="font-mono text-green-600">${price.toFixed(2)}</span>
-                <span className="font-mono text-right">{size.toFixed(4)}</span>
+                <span className="font-mono text-green-600">{formatPrice(price)}</span>
+                <span className="font-mono text-right">{size.toFixed(sizeDecimals)}</span>
                 <span className="font-mono text-right text-gray-500">
                   {bids
                     .slice(0, index + 1)
                     .reduce((sum, [, s]) => sum + s, 0)
-                    .toFixed(4)}
+                    .toFixed(sizeDecimals)}
                 </span>
               </div>
             )
@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { RefreshCw } from "lucide-react"
+import type { ReconnectState } from "@/lib/feed/reconnect"
+
+interface ReconnectStatusProps {
+  state: ReconnectState
+  onRetryNow: () => void
+}
+
+/**
+ * Short description of a connection's retry progress, e.g. for tooltips
+ */
+export function describeReconnect(state: ReconnectState, now = Date.now()): string {
+  switch (state.phase) {
+    case "connecting":
+      return state.attempt > 1 ? `Connecting (attempt ${state.attempt}/${state.maxAttempts})` : "Connecting"
+    case "backoff": {
+      const seconds = Math.max(0, Math.ceil(((state.nextRetryAt ?? now) - now) / 1000))
+      return `Attempt ${state.attempt}/${state.maxAttempts} failed, retrying in ${seconds}s`
+    }
+    case "exhausted":
+      return `Gave up after ${state.attempt} attempts`
+    case "open":
+      return "Connected"
+    default:
+      return "Disconnected"
+  }
+}
+
+export function ReconnectStatus({ state, onRetryNow }: ReconnectStatusProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick once a second while a retry countdown is showing
+  useEffect(() => {
+    if (state.phase !== "backoff") return
+
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [state.phase, state.nextRetryAt])
+
+  const canRetry = state.phase === "backoff" || state.phase === "exhausted"
+  const isRetrying = state.phase === "connecting" && state.attempt > 1
+
+  if (!canRetry && !isRetrying) return null
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className={`text-xs ${state.phase === "exhausted" ? "text-red-500" : "text-yellow-600"}`}>
+        {describeReconnect(state, now)}
+      </span>
+      {canRetry && (
+        <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onRetryNow}>
+          <RefreshCw className="h-3 w-3 mr-1" />
+          Retry now
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Circle, Square } from "lucide-react"
+import { DEFAULT_RECORDING_LIMITS, type RecordingLimits, type RecordingStatus } from "@/lib/feed/recorder"
+import type { FeedMode } from "@/lib/feed/protocol"
+
+interface RecordingControlsProps {
+  mode: FeedMode
+  status: RecordingStatus | null
+  onStart: (limits: RecordingLimits) => void
+  onStop: () => void
+}
+
+const MB = 1024 * 1024
+
+const SIZE_OPTIONS = [10 * MB, 50 * MB, 200 * MB]
+const DURATION_OPTIONS = [5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000]
+
+const formatBytes = (bytes: number) =>
+  bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+const STOP_REASONS = {
+  manual: "Stopped",
+  size: "Size limit reached",
+  duration: "Duration limit reached",
+}
+
+/**
+ * Toggle raw feed capture. Direct mode downloads an NDJSON file when recording stops;
+ * aggregated mode writes rotating files on the server.
+ */
+export function RecordingControls({ mode, status, onStart, onStop }: RecordingControlsProps) {
+  const [limits, setLimits] = useState<RecordingLimits>(DEFAULT_RECORDING_LIMITS)
+  const [now, setNow] = useState(() => Date.now())
+  const isRecording = status?.recording ?? false
+
+  // Tick the elapsed time while recording
+  useEffect(() => {
+    if (!isRecording) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [isRecording])
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Feed Recorder</span>
+          {isRecording && (
+            <span className="flex items-center text-sm text-red-600">
+              <Circle className="w-3 h-3 mr-1 fill-red-600 animate-pulse" />
+              REC
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Max size</Label>
+            <Select
+              value={String(limits.maxBytes)}
+              onValueChange={(value) => setLimits((prev) => ({ ...prev, maxBytes: Number(value) }))}
+              disabled={isRecording}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIZE_OPTIONS.map((bytes) => (
+                  <SelectItem key={bytes} value={String(bytes)} className="text-xs">
+                    {formatBytes(bytes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Max duration</Label>
+            <Select
+              value={String(limits.maxDurationMs)}
+              onValueChange={(value) => setLimits((prev) => ({ ...prev, maxDurationMs: Number(value) }))}
+              disabled={isRecording}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_OPTIONS.map((ms) => (
+                  <SelectItem key={ms} value={String(ms)} className="text-xs">
+                    {formatDuration(ms)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isRecording ? (
+          <Button onClick={onStop} variant="destructive" className="w-full">
+            <Square className="w-4 h-4 mr-2" />
+            Stop Recording
+          </Button>
+        ) : (
+          <Button onClick={() => onStart(limits)} variant="outline" className="w-full">
+            <Circle className="w-4 h-4 mr-2 text-red-600" />
+            Record Raw Feed
+          </Button>
+        )}
+
+        {status && status.startedAt !== null && (
+          <div className="text-xs text-gray-500 space-y-1">
+            <div className="flex justify-between">
+              <span>{isRecording ? "Recording" : STOP_REASONS[status.stoppedReason ?? "manual"]}</span>
+              <span className="font-mono">
+                {status.messages} msgs · {formatBytes(status.bytes)}
+                {isRecording && ` · ${formatDuration(now - status.startedAt)}`}
+              </span>
+            </div>
+            {status.recordingId && <div className="truncate">Server recording: {status.recordingId}</div>}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-400">
+          {mode === "aggregated"
+            ? "Captures every frame the server receives into rotating NDJSON files on the server."
+            : "Captures the selected symbol's raw frames and downloads them as NDJSON when stopped."}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
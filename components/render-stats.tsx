@@ -0,0 +1,69 @@
+"use client"
+
+import { Profiler, useEffect, useState, type ReactNode } from "react"
+import { Gauge } from "lucide-react"
+import { createFrameMonitor, type FrameStats } from "@/lib/frame-stats"
+
+/** NEXT_PUBLIC_RENDER_STATS=1 shows frame times and React commit costs of the wrapped tree */
+const RENDER_STATS_ENABLED = process.env.NEXT_PUBLIC_RENDER_STATS === "1"
+
+/** How often the overlay refreshes */
+const REFRESH_INTERVAL_MS = 1000
+
+const formatMs = (value: number | undefined) => (value === undefined ? "n/a" : `${value.toFixed(1)}ms`)
+
+/**
+ * Profile the wrapped tree and overlay its frame and commit statistics in the corner of the page.
+ * Renders only its children unless NEXT_PUBLIC_RENDER_STATS=1. Commit times need a development or profiling build.
+ */
+export function RenderStats({ id, children }: { id: string; children: ReactNode }) {
+  const [monitor] = useState(createFrameMonitor)
+  const [stats, setStats] = useState<FrameStats | null>(null)
+
+  useEffect(() => {
+    if (!RENDER_STATS_ENABLED) return
+
+    monitor.start()
+    const interval = setInterval(() => setStats(monitor.snapshot()), REFRESH_INTERVAL_MS)
+    return () => {
+      clearInterval(interval)
+      monitor.stop()
+    }
+  }, [monitor])
+
+  if (!RENDER_STATS_ENABLED) return <>{children}</>
+
+  return (
+    <>
+      <Profiler id={id} onRender={(_id, _phase, actualDuration) => monitor.recordCommit(actualDuration)}>
+        {children}
+      </Profiler>
+      <div className="fixed bottom-2 right-2 z-50 rounded-lg border bg-white/90 dark:bg-gray-900/90 p-2 text-xs shadow-lg">
+        <div className="flex items-center font-medium mb-1">
+          <Gauge className="h-3 w-3 mr-1" />
+          Render stats
+        </div>
+        {stats ? (
+          <div className="grid grid-cols-2 gap-x-3 font-mono">
+            <span className="text-gray-500">FPS</span>
+            <span className="text-right">{stats.fps.toFixed(0)}</span>
+            <span className="text-gray-500">Frame p50/p99</span>
+            <span className="text-right">
+              {formatMs(stats.frameTime?.p50)} / {formatMs(stats.frameTime?.p99)}
+            </span>
+            <span className="text-gray-500">Long frames</span>
+            <span className={`text-right ${stats.longFrames > 0 ? "text-red-600" : ""}`}>{stats.longFrames}</span>
+            <span className="text-gray-500">Commits/s</span>
+            <span className="text-right">{stats.commitsPerSecond.toFixed(1)}</span>
+            <span className="text-gray-500">Commit p50/p99</span>
+            <span className="text-right">
+              {formatMs(stats.commitTime?.p50)} / {formatMs(stats.commitTime?.p99)}
+            </span>
+          </div>
+        ) : (
+          <span className="text-gray-400">Sampling...</span>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FolderOpen, Pause, Play, X } from "lucide-react"
+import { REPLAY_SPEEDS, parseCapture, type ReplayCapture, type ReplayState } from "@/lib/feed/replay"
+
+interface ReplayTimelineProps {
+  capture: ReplayCapture | null
+  state: ReplayState | null
+  onLoad: (capture: ReplayCapture) => void
+  onClose: () => void
+  onPlay: () => void
+  onPause: () => void
+  onSeek: (position: number) => void
+  onSpeedChange: (speed: number) => void
+}
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+/**
+ * Load an NDJSON capture and scrub through it. Without a capture only the load button is shown.
+ */
+export function ReplayTimeline({
+  capture,
+  state,
+  onLoad,
+  onClose,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+}: ReplayTimelineProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  // Position under the thumb while dragging, so the capture is only rebuilt once on release
+  const [dragPosition, setDragPosition] = useState<number | null>(null)
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const messages = parseCapture(await file.text())
+      if (messages.length === 0) {
+        setLoadError(`${file.name} contains no recorded frames`)
+        return
+      }
+      setLoadError(null)
+      onLoad({ fileName: file.name, messages })
+    } catch (error) {
+      setLoadError(`Failed to read ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  const loadButton = (
+    <>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".ndjson,.jsonl,application/x-ndjson"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => fileInput.current?.click()}>
+        <FolderOpen className="w-3 h-3 mr-1" />
+        {capture ? "Load another" : "Replay capture"}
+      </Button>
+    </>
+  )
+
+  if (!capture) {
+    return (
+      <div className="flex items-center justify-end space-x-2">
+        {loadError && <span className="text-xs text-red-600">{loadError}</span>}
+        {loadButton}
+      </div>
+    )
+  }
+
+  const start = state?.start ?? 0
+  const end = state?.end ?? 0
+  const position = dragPosition ?? state?.position ?? start
+  const hasFrames = end > start
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 p-2 rounded-lg space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium truncate" title={capture.fileName}>
+          Replaying {capture.fileName}
+        </span>
+        <div className="flex items-center space-x-2">
+          {loadError && <span className="text-red-600">{loadError}</span>}
+          {loadButton}
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={onClose}>
+            <X className="w-3 h-3 mr-1" />
+            Back to live
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={state?.playing ? onPause : onPlay}
+          disabled={!hasFrames}
+          aria-label={state?.playing ? "Pause replay" : "Play replay"}
+        >
+          {state?.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+
+        <Slider
+          min={start}
+          max={Math.max(end, start + 1)}
+          step={100}
+          value={[position]}
+          onValueChange={([value]) => setDragPosition(value)}
+          onValueCommit={([value]) => {
+            setDragPosition(null)
+            onSeek(value)
+          }}
+          disabled={!hasFrames}
+          className="flex-1"
+        />
+
+        <span className="font-mono text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap">
+          {formatOffset(position - start)} / {formatOffset(end - start)}
+        </span>
+
+        <Select value={String(state?.speed ?? 1)} onValueChange={(value) => onSpeedChange(Number(value))}>
+          <SelectTrigger className="h-8 w-20 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_SPEEDS.map((speed) => (
+              <SelectItem key={speed} value={String(speed)} className="text-xs">
+                {speed}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hasFrames && <div className="text-xs text-gray-500">Captured at {new Date(position).toLocaleString()}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { SizeUnit, Symbol } from "@/types/trading"
+
+interface SizeUnitToggleProps {
+  value: SizeUnit
+  symbol: Symbol
+  onChange: (unit: SizeUnit) => void
+}
+
+/**
+ * Display unit for book, depth and trade sizes across venues: base currency, quote notional or each venue's contracts.
+ * Venues quote sizes in different units (e.g. Deribit perpetuals in USD, spot venues in BTC), so depth only
+ * compares across venues in base or quote.
+ */
+export function SizeUnitToggle({ value, symbol, onChange }: SizeUnitToggleProps) {
+  const [base, quote] = symbol.split("-")
+
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={value}
+      // Clicking the active item would clear a single toggle group, which is not a unit
+      onValueChange={(unit) => unit && onChange(unit as SizeUnit)}
+    >
+      <ToggleGroupItem value="base" className="text-xs" title={`Sizes in ${base}`}>
+        {base}
+      </ToggleGroupItem>
+      <ToggleGroupItem value="quote" className="text-xs" title={`Notional in ${quote}, at each level's price`}>
+        {quote}
+      </ToggleGroupItem>
+      <ToggleGroupItem
+        value="contracts"
+        className="text-xs"
+        title="Each venue's own contracts; not comparable across venues"
+      >
+        Contracts
+      </ToggleGroupItem>
+    </ToggleGroup>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ListOrdered } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getVenueAdapter } from "@/lib/venues"
+import type { Trade, Venue } from "@/types/trading"
+
+interface TimeAndSalesProps {
+  venue: Venue
+  /** Newest first */
+  trades: Trade[]
+  /** Decimals of the unit the sizes are shown in */
+  sizeDecimals?: number
+}
+
+/** Minimum trade sizes the tape can be filtered to, in the displayed size unit */
+const SIZE_FILTERS = [0, 0.1, 1, 10, 100]
+
+/** Rows rendered at most, the tape itself keeps more for filtering */
+const VISIBLE_TRADES = 60
+
+const formatTime = (timestamp: number) => {
+  const time = new Date(timestamp)
+  return `${time.toLocaleTimeString([], { hour12: false })}.${String(time.getMilliseconds()).padStart(3, "0")}`
+}
+
+/**
+ * Public trades of one venue, newest first, colored by aggressor side: green when a buyer lifted an offer,
+ * red when a seller hit a bid
+ */
+export function TimeAndSales({ venue, trades, sizeDecimals = 4 }: TimeAndSalesProps) {
+  const [minSize, setMinSize] = useState(0)
+
+  const { visible, buyVolume, sellVolume } = useMemo(() => {
+    const filtered = trades.filter((trade) => trade.size >= minSize)
+    return {
+      visible: filtered.slice(0, VISIBLE_TRADES),
+      buyVolume: filtered.reduce((sum, trade) => (trade.side === "buy" ? sum + trade.size : sum), 0),
+      sellVolume: filtered.reduce((sum, trade) => (trade.side === "sell" ? sum + trade.size : sum), 0),
+    }
+  }, [trades, minSize])
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 p-2 rounded-lg text-xs space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center font-medium">
+          <ListOrdered className="h-3 w-3 mr-1" />
+          Time &amp; Sales
+        </span>
+        <Select value={String(minSize)} onValueChange={(value) => setMinSize(Number(value))}>
+          <SelectTrigger className="h-7 w-24 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SIZE_FILTERS.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size === 0 ? "All sizes" : `≥ ${size}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!getVenueAdapter(venue).trades ? (
+        <p className="text-gray-400">{venue} trades are not streamed</p>
+      ) : visible.length === 0 ? (
+        <p className="text-gray-400">
+          {trades.length === 0 ? `Waiting for ${venue} trades...` : "No trades at this size"}
+        </p>
+      ) : (
+        <>
+          <div className="flex justify-between text-gray-500">
+            <span className="text-green-600">Buys {buyVolume.toFixed(sizeDecimals)}</span>
+            <span className="text-red-600">Sells {sellVolume.toFixed(sizeDecimals)}</span>
+          </div>
+          <div className="grid grid-cols-3 font-medium text-gray-500">
+            <span>Time</span>
+            <span className="text-right">Price</span>
+            <span className="text-right">Size</span>
+          </div>
+          <div className="max-h-96 overflow-y-auto space-y-0.5">
+            {visible.map((trade) => (
+              <div
+                key={trade.id}
+                className={`grid grid-cols-3 font-mono ${trade.side === "buy" ? "text-green-600" : "text-red-600"}`}
+              >
+                <span className="text-gray-500">{formatTime(trade.timestamp)}</span>
+                <span className="text-right">${trade.price.toFixed(2)}</span>
+                <span className="text-right">{trade.size.toFixed(sizeDecimals)}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -8,12 +8,17 @@ import { Clock, AlertTriangle } from "lucide-react"
 import type { OrderMetrics } from "@/types/trading"
 
 interface TimingComparisonProps {
-  onCompareTimings: (timings: string[]) => Promise<OrderMetrics[]>
+  /** Metrics per timing, null for timings whose simulation was refused */
+  onCompareTimings: (timings: string[]) => Promise<Array<OrderMetrics | null>>
   isComparing: boolean
+  /** When set, comparisons are unavailable and this reason is shown instead */
+  disabledReason?: string | null
 }
 
-export function TimingComparison({ onCompareTimings, isComparing }: TimingComparisonProps) {
-  const [comparisonResults, setComparisonResults] = useState<Array<{ timing: string; metrics: OrderMetrics }>>([])
+export function TimingComparison({ onCompareTimings, isComparing, disabledReason }: TimingComparisonProps) {
+  const [comparisonResults, setComparisonResults] = useState<Array<{ timing: string; metrics: OrderMetrics | null }>>(
+    [],
+  )
 
   const timingOptions = [
     { value: "immediate", label: "Immediate" },
@@ -35,9 +40,12 @@ export function TimingComparison({ onCompareTimings, isComparing }: TimingCompar
   }
 
   const getBestTiming = () => {
-    if (comparisonResults.length === 0) return null
+    const simulated = comparisonResults.filter(
+      (result): result is { timing: string; metrics: OrderMetrics } => result.metrics !== null,
+    )
+    if (simulated.length === 0) return null
 
-    return comparisonResults.reduce((best, current) => {
+    return simulated.reduce((best, current) => {
       const bestScore = best.metrics.fillPercentage - best.metrics.marketImpact - best.metrics.slippage / 10
       const currentScore = current.metrics.fillPercentage - current.metrics.marketImpact - current.metrics.slippage / 10
       return currentScore > bestScore ? current : best
@@ -55,10 +63,17 @@ export function TimingComparison({ onCompareTimings, isComparing }: TimingCompar
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <Button onClick={handleCompare} disabled={isComparing} className="w-full">
+        <Button onClick={handleCompare} disabled={isComparing || !!disabledReason} className="w-full">
           {isComparing ? "Comparing..." : "Compare All Timing Scenarios"}
         </Button>
 
+        {disabledReason && (
+          <div className="flex items-center text-xs text-orange-600">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {disabledReason}
+          </div>
+        )}
+
         {comparisonResults.length > 0 && (
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -96,23 +111,27 @@ export function TimingComparison({ onCompareTimings, isComparing }: TimingCompar
                     <div className="grid grid-cols-2 gap-2 text-sm">
                       <div>
                         <span className="text-gray-500">Fill:</span>
-                        <span className="ml-1 font-mono">{metrics.fillPercentage.toFixed(1)}%</span>
+                        <span className="ml-1 font-mono">
+                          {metrics ? `${metrics.fillPercentage.toFixed(1)}%` : "n/a"}
+                        </span>
                       </div>
                       <div>
                         <span className="text-gray-500">Impact:</span>
-                        <span className="ml-1 font-mono">{metrics.marketImpact.toFixed(3)}%</span>
+                        <span className="ml-1 font-mono">
+                          {metrics ? `${metrics.marketImpact.toFixed(3)}%` : "n/a"}
+                        </span>
                       </div>
                       <div>
                         <span className="text-gray-500">Slippage:</span>
-                        <span className="ml-1 font-mono">${metrics.slippage.toFixed(2)}</span>
+                        <span className="ml-1 font-mono">{metrics ? `$${metrics.slippage.toFixed(2)}` : "n/a"}</span>
                       </div>
                       <div>
                         <span className="text-gray-500">Time:</span>
-                        <span className="ml-1 font-mono">{metrics.estimatedFillTime}</span>
+                        <span className="ml-1 font-mono">{metrics ? metrics.estimatedFillTime : "n/a"}</span>
                       </div>
                     </div>
 
-                    {metrics.warnings.length > 0 && (
+                    {metrics && metrics.warnings.length > 0 && (
                       <div className="mt-2 flex items-center text-xs text-orange-600">
                         <AlertTriangle className="w-3 h-3 mr-1" />
                         {metrics.warnings.length} warning{metrics.warnings.length > 1 ? "s" : ""}
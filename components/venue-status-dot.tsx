@@ -0,0 +1,35 @@
+"use client"
+
+import { useOrderbookSelector } from "@/hooks/use-orderbook-store"
+import type { OrderbookStore } from "@/lib/feed/orderbook-store"
+import type { ConnectionStatus, Orderbook, OrderbookSource, Symbol, Venue } from "@/types/trading"
+
+interface VenueStatusDotProps {
+  store: OrderbookStore
+  venue: Venue
+  symbol: Symbol
+  status: ConnectionStatus
+  className?: string
+  title?: string
+}
+
+/** Status dot color; mock and stale books pulse so they cannot be mistaken for a healthy feed */
+export const getStatusDotClass = (status: ConnectionStatus, source: OrderbookSource | undefined) => {
+  if (status === "mock" || source === "mock") return "bg-purple-500 animate-pulse"
+  if (source === "stale") return "bg-amber-500 animate-pulse"
+  if (status === "connected") return "bg-green-500"
+  if (status === "connecting") return "bg-yellow-500"
+  if (status === "resyncing") return "bg-orange-500"
+  return "bg-red-500"
+}
+
+const selectSource = (orderbook: Orderbook | null) => orderbook?.source
+
+/**
+ * Status dot of a venue that is not on screen, e.g. on its tab. It follows only the source of the venue's book,
+ * so it re-renders when the book turns mock or stale rather than on every update.
+ */
+export function VenueStatusDot({ store, venue, symbol, status, className = "", title }: VenueStatusDotProps) {
+  const source = useOrderbookSelector(store, venue, symbol, selectSource)
+  return <div title={title} className={`rounded-full ${getStatusDotClass(status, source)} ${className}`} />
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import { useMemo } from "react"
+import { Eye } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useSymbolBooks } from "@/hooks/use-orderbook-store"
+import { VENUES } from "@/lib/venues"
+import type { OrderbookStore } from "@/lib/feed/orderbook-store"
+import type { Orderbook, Symbol, Venue } from "@/types/trading"
+
+interface WatchlistProps {
+  /** Symbols that can be watched */
+  symbols: Symbol[]
+  watchlist: Symbol[]
+  selectedSymbol: Symbol
+  selectedVenue: Venue
+  /** Books of every venue and watched symbol */
+  store: OrderbookStore
+  onWatchlistChange: (watchlist: Symbol[]) => void
+  onSymbolSelect: (symbol: Symbol) => void
+}
+
+/** Top of book of one venue, or null while it has no usable book */
+const getQuote = (orderbook: Orderbook | undefined) => {
+  const bid = orderbook?.bids[0]?.[0]
+  const ask = orderbook?.asks[0]?.[0]
+  if (!bid || !ask || ask < bid) return null
+  const mid = (bid + ask) / 2
+  return { mid, spreadBps: ((ask - bid) / mid) * 10000 }
+}
+
+/** Mock books are synthetic and stale ones frozen, so neither counts as a venue streaming the symbol */
+const isStreaming = (orderbook: Orderbook | undefined) =>
+  orderbook !== undefined && orderbook.source !== "mock" && orderbook.source !== "stale" && getQuote(orderbook) !== null
+
+/**
+ * Several symbols kept live at once over the same venue sockets as the selected one.
+ * Each row shows the selected venue's mid and spread and how many venues are streaming real books; a mock or stale
+ * quote is dimmed and tagged as in the orderbook display. Clicking a row selects it.
+ */
+export function Watchlist({
+  symbols,
+  watchlist,
+  selectedSymbol,
+  selectedVenue,
+  store,
+  onWatchlistChange,
+  onSymbolSelect,
+}: WatchlistProps) {
+  // The selected symbol is always streamed, so it is listed even when it is not watched
+  const rows = useMemo(
+    () => symbols.filter((symbol) => symbol === selectedSymbol || watchlist.includes(symbol)),
+    [symbols, selectedSymbol, watchlist],
+  )
+  const books = useSymbolBooks(store, rows)
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Eye className="h-4 w-4 mr-2" />
+          Watchlist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={watchlist}
+          onValueChange={(value) => onWatchlistChange(symbols.filter((symbol) => value.includes(symbol)))}
+        >
+          {symbols.map((symbol) => (
+            <ToggleGroupItem key={symbol} value={symbol} className="text-xs">
+              {symbol}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="grid grid-cols-4 gap-x-2 text-xs font-medium text-gray-500">
+          <span>Symbol</span>
+          <span className="text-right">Mid ({selectedVenue})</span>
+          <span className="text-right">Spread</span>
+          <span className="text-right">Venues</span>
+        </div>
+        <div className="space-y-1">
+          {rows.map((symbol) => {
+            const symbolBooks = books[symbol] ?? {}
+            const orderbook = symbolBooks[selectedVenue]
+            const quote = getQuote(orderbook)
+            const flagged =
+              quote && (orderbook?.source === "mock" || orderbook?.source === "stale") ? orderbook.source : null
+            const live = VENUES.filter((venue) => isStreaming(symbolBooks[venue])).length
+
+            return (
+              <button
+                key={symbol}
+                type="button"
+                onClick={() => onSymbolSelect(symbol)}
+                className={`grid grid-cols-4 gap-x-2 w-full rounded px-1 py-0.5 text-sm text-left hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                  symbol === selectedSymbol ? "bg-blue-50 dark:bg-blue-950 font-medium" : ""
+                }`}
+              >
+                <span>{symbol}</span>
+                <span className={`font-mono text-right ${flagged ? "opacity-60" : ""}`}>
+                  {flagged && (
+                    <span
+                      className={`mr-1 font-sans text-[10px] ${flagged === "mock" ? "text-purple-600" : "text-amber-600"}`}
+                    >
+                      {flagged.toUpperCase()}
+                    </span>
+                  )}
+                  {quote ? `$${quote.mid.toFixed(2)}` : "—"}
+                </span>
+                <span className={`font-mono text-right ${flagged ? "opacity-60" : ""}`}>
+                  {quote ? `${quote.spreadBps.toFixed(1)} bps` : "—"}
+                </span>
+                <span className="text-right text-gray-500">
+                  {live}/{VENUES.length}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,13 @@
-import type { Orderbook } from "@/types/trading"
+import type { InstrumentSpec, Orderbook, Symbol, Venue } from "@/types/trading"
+import {
+  createSyntheticMarket,
+  deriveSeed,
+  isMarketRegime,
+  type MarketRegime,
+  type SyntheticMarket,
+} from "@/lib/synthetic-market"
+import { VENUES } from "@/lib/venues"
+import { fromBaseSize, getInstrument, roundToStep } from "@/lib/instruments"
 
 /**
  * Generate realistic mock orderbook data for testing and fallback
@@ -13,6 +22,9 @@ export const generateMockOrderbook = (basePrice = 50000, venue = "Mock"): Orderb
       OKX: 1.0,
       Bybit: 1.001,
       Deribit: 0.999,
+      Binance: 1.0005,
+      Coinbase: 1.0002,
+      Kraken: 0.9998,
       Mock: 1.0,
     }[venue as keyof typeof venueMultiplier] || 1.0
 
@@ -38,22 +50,121 @@ export const generateMockOrderbook = (basePrice = 50000, venue = "Mock"): Orderb
     bids: bids.sort((a, b) => b[0] - a[0]), // Sort bids descending by price
     asks: asks.sort((a, b) => a[0] - b[0]), // Sort asks ascending by price
     timestamp: Date.now(),
+    source: "mock",
   }
 }
 
-export const getMockOrderbookForVenue = (venue: string, symbol: string): Orderbook => {
-  const basePrices: Record<string, number> = {
-    "BTC-USD": 43000,
-    "ETH-USD": 2500,
-    "BTC-USDT": 43000,
-    "ETH-USDT": 2500,
-    BTCUSDT: 43000,
-    ETHUSDT: 2500,
-    "BTC-PERPETUAL": 43000,
-    "ETH-PERPETUAL": 2500,
+/** Last live mid price per base asset, from any venue, so mock books start where the market is */
+const referencePrices = new Map<string, number>()
+
+/** Where mock books start for an asset no venue has delivered a live book for yet */
+const FALLBACK_REFERENCE_PRICE = 50000
+
+const baseAsset = (symbol: string) => symbol.split("-")[0]
+
+/**
+ * Remember the mid of a live book as the price mock books of its asset start from
+ */
+export const recordReferencePrice = (symbol: string, orderbook: Orderbook) => {
+  const bid = orderbook.bids[0]?.[0]
+  const ask = orderbook.asks[0]?.[0]
+  if (orderbook.source === "live" && bid !== undefined && ask !== undefined) {
+    referencePrices.set(baseAsset(symbol), (bid + ask) / 2)
+  }
+}
+
+const getReferencePrice = (symbol: string) => referencePrices.get(baseAsset(symbol)) ?? FALLBACK_REFERENCE_PRICE
+
+/** Seed and regime of the synthetic markets behind mock books */
+export interface MockMarketSettings {
+  seed: number
+  regime: MarketRegime
+}
+
+/**
+ * Synthetic markets are on by default so mock sessions are reproducible.
+ * NEXT_PUBLIC_MOCK_SEED and NEXT_PUBLIC_MOCK_REGIME pick the session; the regime can be changed at runtime.
+ */
+export const DEFAULT_MOCK_MARKET_SETTINGS: MockMarketSettings = {
+  seed: Number(process.env.NEXT_PUBLIC_MOCK_SEED) || 1,
+  regime:
+    process.env.NEXT_PUBLIC_MOCK_REGIME && isMarketRegime(process.env.NEXT_PUBLIC_MOCK_REGIME)
+      ? process.env.NEXT_PUBLIC_MOCK_REGIME
+      : "calm",
+}
+
+let mockMarketSettings = DEFAULT_MOCK_MARKET_SETTINGS
+
+/**
+ * Switch the regime of every mock book in this context. Running markets keep their book and change their
+ * order flow from the next step on.
+ */
+export const setMockMarketRegime = (regime: MarketRegime) => {
+  mockMarketSettings = { ...mockMarketSettings, regime }
+}
+
+/** Simulated steps between two mock books; the fallback publishes every 2s and a step is about 100ms */
+const MOCK_STEPS_PER_BOOK = 20
+
+const syntheticMarkets = new Map<string, SyntheticMarket>()
+
+/** The venue instrument behind a mock book, when the venue is a registered one that lists the symbol */
+const getMockInstrument = (venue: string, symbol: string): InstrumentSpec | null =>
+  VENUES.includes(venue as Venue) ? getInstrument(venue as Venue, symbol as Symbol) : null
+
+/**
+ * Synthetic sizes are in the base currency; inverse instruments count theirs in USD or contracts
+ */
+const toInstrumentUnits = (orderbook: Orderbook, spec: InstrumentSpec | null): Orderbook => {
+  if (!spec || spec.sizeUnit === "base") return orderbook
+
+  const convert = (levels: [number, number][]): [number, number][] =>
+    levels.map(([price, size]) => [
+      price,
+      Math.max(spec.lotSize, roundToStep(fromBaseSize(spec, size, price), spec.lotSize)),
+    ])
+  return { ...orderbook, bids: convert(orderbook.bids), asks: convert(orderbook.asks) }
+}
+
+/**
+ * The persistent synthetic market for a venue and symbol. Each venue gets its own seed derived
+ * from the session seed, so venues differ from each other but every run repeats.
+ * It starts at the asset's last live price, or FALLBACK_REFERENCE_PRICE before any venue delivered one.
+ */
+const getSyntheticMarket = (venue: string, symbol: string, settings: MockMarketSettings): SyntheticMarket => {
+  const key = `${venue}:${symbol}:${settings.seed}`
+  let market = syntheticMarkets.get(key)
+  if (market) {
+    if (market.regime() !== settings.regime) market.setRegime(settings.regime)
+  } else {
+    const basePrice = getReferencePrice(symbol)
+    market = createSyntheticMarket({
+      seed: deriveSeed(settings.seed, `${venue}:${symbol}`),
+      regime: settings.regime,
+      basePrice,
+      tickSize: getMockInstrument(venue, symbol)?.tickSize ?? (basePrice >= 10000 ? 0.1 : 0.01),
+    })
+    syntheticMarkets.set(key, market)
+  }
+  return market
+}
+
+/**
+ * Next mock book for a venue. Uses the seeded synthetic market unless `settings` is null,
+ * in which case a fresh random book is generated as before.
+ */
+export const getMockOrderbookForVenue = (
+  venue: string,
+  symbol: string,
+  settings: MockMarketSettings | null = mockMarketSettings,
+): Orderbook => {
+  if (settings) {
+    const market = getSyntheticMarket(venue, symbol, settings)
+    market.step(MOCK_STEPS_PER_BOOK)
+    return toInstrumentUnits(market.toOrderbook(), getMockInstrument(venue, symbol))
   }
 
-  const basePrice = basePrices[symbol] || 50000
+  const basePrice = getReferencePrice(symbol)
 
   // Add slight price variation to simulate real market movement
   const priceVariation = (Math.random() - 0.5) * 100 // ±$50 variation
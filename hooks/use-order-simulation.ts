@@ -1,12 +1,46 @@
 "use client"
 
 import { useState } from "react"
-import type { SimulatedOrder, OrderMetrics } from "@/types/trading"
+import { roundToStep, sizeUnitLabel, toBaseSize } from "@/lib/instruments"
+import type { SimulatedOrder, OrderMetrics, Orderbook } from "@/types/trading"
+
+/** A simulated order and its metrics, or null when the simulation was refused */
+export type SimulationResult = { order: SimulatedOrder; metrics: OrderMetrics } | null
+
+/**
+ * Why a book cannot be simulated against, or null when it can.
+ * Mock books are refused outright; stale books are allowed but flagged in the metrics.
+ */
+export const getSimulationBlocker = (orderbook: Orderbook | null): string | null => {
+  if (!orderbook) return "No orderbook data yet"
+  if (orderbook.source === "mock") return "Simulation disabled: this venue is showing mock data, not a live book"
+  return null
+}
 
-export function useOrderSimulation() {
+/**
+ * Order simulation against the given book. Results on anything other than a live
+ * (or deliberately replayed) book are refused or carry a warning.
+ * Quantities are in the book's instrument unit (e.g. USD for inverse perpetuals) and snap to its tick and lot sizes.
+ */
+export function useOrderSimulation(orderbook: Orderbook | null) {
   const [orderMetrics, setOrderMetrics] = useState<OrderMetrics | null>(null)
+  const [simulationError, setSimulationError] = useState<string | null>(null)
+
+  const simulateOrder = async (orderData: any): Promise<SimulationResult> => {
+    const blocker = getSimulationBlocker(orderbook)
+    if (blocker) {
+      setSimulationError(blocker)
+      setOrderMetrics(null)
+      return null
+    }
+    const spec = orderbook?.instrument
+    if (spec && orderData.quantity < spec.minSize) {
+      setSimulationError(`Minimum ${spec.instrument} order is ${spec.minSize} ${sizeUnitLabel(spec)}`)
+      setOrderMetrics(null)
+      return null
+    }
+    setSimulationError(null)
 
-  const simulateOrder = async (orderData: any): Promise<SimulatedOrder> => {
     // Simulate network delay based on timing
     const delays = {
       immediate: 0,
@@ -27,22 +61,38 @@ export function useOrderSimulation() {
       symbol: orderData.symbol,
       type: orderData.type,
       side: orderData.side,
-      price: orderData.price || 0,
-      quantity: orderData.quantity,
+      price: spec && orderData.price ? roundToStep(orderData.price, spec.tickSize) : orderData.price || 0,
+      quantity: spec ? roundToStep(orderData.quantity, spec.lotSize) : orderData.quantity,
       timing: orderData.timing,
       timestamp: Date.now(),
     }
 
     // Calculate order metrics
     const metrics = calculateOrderMetrics(simulatedOrder)
+    if (spec && simulatedOrder.quantity !== orderData.quantity) {
+      metrics.warnings.push(
+        `Quantity rounded to ${simulatedOrder.quantity} ${sizeUnitLabel(spec)} (lot size ${spec.lotSize})`,
+      )
+    }
+    if (spec && orderData.price && simulatedOrder.price !== orderData.price) {
+      metrics.warnings.push(`Price rounded to ${simulatedOrder.price} (tick size ${spec.tickSize})`)
+    }
+    if (orderbook?.source === "stale") {
+      metrics.warnings.unshift(
+        `Based on a stale book from ${new Date(orderbook.timestamp).toLocaleTimeString()}; the feed is disconnected`,
+      )
+    }
     setOrderMetrics(metrics)
 
-    return simulatedOrder
+    return { order: simulatedOrder, metrics }
   }
 
   const calculateOrderMetrics = (order: SimulatedOrder): OrderMetrics => {
-    // More realistic calculations based on order parameters
-    const baseImpact = order.quantity * 0.01 // Base impact per unit
+    // More realistic calculations based on order parameters, in base currency units whatever the instrument counts
+    const spec = orderbook?.instrument
+    const referencePrice = order.price || orderbook?.asks[0]?.[0] || orderbook?.bids[0]?.[0] || 0
+    const baseQuantity = spec ? toBaseSize(spec, order.quantity, referencePrice) : order.quantity
+    const baseImpact = baseQuantity * 0.01 // Base impact per unit
     const timingMultiplier =
       {
         immediate: 1.2,
@@ -84,5 +134,5 @@ export function useOrderSimulation() {
     }
   }
 
-  return { simulateOrder, orderMetrics }
+  return { simulateOrder, orderMetrics, simulationError }
 }
@@ -1,414 +1,234 @@
 "use client"
 
 import { useState, useEffect, useRef, useCallback } from "react"
-import type { Venue, Symbol, Orderbook, ConnectionStatus } from "@/types/trading"
-import { getMockOrderbookForVenue } from "./use-mock-data"
+import type { Venue, Symbol, ConnectionStatus, DerivativesTicker, Trade } from "@/types/trading"
+import { createVenueRecord } from "@/lib/venues"
+import { downloadBlob } from "@/lib/utils"
+import { createFeedClient, type FeedClient } from "@/lib/feed/feed-client"
+import type { FeedCommand, FeedEvent, FeedMode } from "@/lib/feed/protocol"
+import { createOrderbookStore } from "@/lib/feed/orderbook-store"
+import { createDiagnosticsStore } from "@/lib/feed/diagnostics"
+import { createReconnectState, type ReconnectState } from "@/lib/feed/reconnect"
+import type { LatencyStats } from "@/lib/feed/latency-stats"
+import type { RecordingLimits, RecordingStatus } from "@/lib/feed/recorder"
+import type { ReplayCapture, ReplayState } from "@/lib/feed/replay"
+import type { MarketRegime } from "@/lib/synthetic-market"
+
+/** Trades kept per venue for the Time & Sales tape */
+export const TRADE_HISTORY_LIMIT = 200
 
 /**
- * Custom hook for managing real-time orderbook data from multiple exchanges
- * Fixed version with proper error handling and API compatibility
+ * Prepend incoming trades to each venue's tape, newest first.
+ * Trades already on the tape are skipped, since a late joiner is sent the recent ones again.
  */
-export function useOrderbookData(venues: Venue[], symbol: Symbol) {
-  const [orderbooks, setOrderbooks] = useState<Record<Venue, Orderbook | null>>({
-    OKX: null,
-    Bybit: null,
-    Deribit: null,
-  })
+const mergeTrades = (tapes: Record<Venue, Trade[]>, incoming: Trade[], reset = false): Record<Venue, Trade[]> => {
+  const next = reset ? createVenueRecord<Trade[]>([]) : { ...tapes }
 
-  const [connectionStatus, setConnectionStatus] = useState<Record<Venue, ConnectionStatus>>({
-    OKX: "disconnected",
-    Bybit: "disconnected",
-    Deribit: "disconnected",
+  incoming.forEach((trade) => {
+    const tape = next[trade.venue]
+    if (tape.some((existing) => existing.id === trade.id)) return
+    next[trade.venue] = [trade, ...tape].slice(0, TRADE_HISTORY_LIMIT)
   })
 
+  return next
+}
+
+/**
+ * Custom hook for managing real-time orderbook data from multiple exchanges.
+ * Connections, parsing and book maintenance run in a Web Worker (direct mode) or on the
+ * server (aggregated mode), which post throttled snapshots back; this hook only mirrors them into React state.
+ * Books go to `store` instead, which components read per venue and symbol with `useOrderbook`, so a
+ * venue's update re-renders only what shows that venue.
+ * Connection health goes to `diagnostics`, read only by the diagnostics drawer.
+ * Replay mode plays `capture` back through the same parsing path instead.
+ * `watchlist` symbols are streamed alongside `symbol` over the same venue sockets; only their books are kept.
+ * `mockRegime` sets the market conditions of venues that fell back to mock books.
+ */
+export function useOrderbookData(
+  venues: Venue[],
+  symbol: Symbol,
+  channels?: Partial<Record<Venue, string>>,
+  mode: FeedMode = "direct",
+  capture: ReplayCapture | null = null,
+  watchlist: Symbol[] = [],
+  mockRegime?: MarketRegime,
+) {
+  const [store] = useState(createOrderbookStore)
+
+  const [diagnostics] = useState(createDiagnosticsStore)
+
+  const [connectionStatus, setConnectionStatus] = useState<Record<Venue, ConnectionStatus>>(() =>
+    createVenueRecord<ConnectionStatus>("disconnected"),
+  )
+
+  const [reconnectState, setReconnectState] = useState<Record<Venue, ReconnectState>>(() =>
+    createVenueRecord(createReconnectState()),
+  )
+
+  const [trades, setTrades] = useState<Record<Venue, Trade[]>>(() => createVenueRecord<Trade[]>([]))
+
+  const [tickers, setTickers] = useState<Record<Venue, DerivativesTicker | null>>(() => createVenueRecord(null))
+
+  const [latencyStats, setLatencyStats] = useState<Record<Venue, LatencyStats | null>>(() => createVenueRecord(null))
+
+  const [checksumMismatches, setChecksumMismatches] = useState<Record<Venue, number>>(() => createVenueRecord(0))
+
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus | null>(null)
+
+  const [replayState, setReplayState] = useState<ReplayState | null>(null)
+
   const [error, setError] = useState<string | null>(null)
-  const websockets = useRef<Record<string, WebSocket>>({})
-  const reconnectTimeouts = useRef<Record<string, NodeJS.Timeout>>({})
-  const heartbeatIntervals = useRef<Record<string, NodeJS.Timeout>>({})
-
-  /**
-   * Convert symbol format for different exchanges
-   */
-  const formatSymbolForVenue = useCallback((venue: Venue, symbol: Symbol): string => {
-    switch (venue) {
-      case "OKX":
-        // OKX uses format like BTC-USDT, ETH-USDT
-        return symbol.replace("USD", "USDT")
-      case "Bybit":
-        // Bybit uses format like BTCUSDT, ETHUSDT (no dash)
-        return symbol.replace("-", "").replace("USD", "USDT")
-      case "Deribit":
-        // Deribit uses perpetual contracts
-        const base = symbol.split("-")[0]
-        return `${base}-PERPETUAL`
-      default:
-        return symbol
-    }
-  }, [])
+  const feed = useRef<FeedClient | null>(null)
+  const currentSymbol = useRef(symbol)
+  const subscription = useRef<FeedCommand | null>(null)
 
-  /**
-   * Create WebSocket connection with proper error handling
-   */
-  const createWebSocket = useCallback((url: string, venue: Venue): WebSocket | null => {
-    try {
-      const ws = new WebSocket(url)
-
-      // Set binary type for better performance
-      ws.binaryType = "arraybuffer"
-
-      return ws
-    } catch (error) {
-      console.error(`Failed to create WebSocket for ${venue}:`, error)
-      setConnectionStatus((prev) => ({ ...prev, [venue]: "error" }))
-      return null
-    }
-  }, [])
+  // Start the feed for the current mode and route its events into state
+  useEffect(() => {
+    const handleEvent = (event: FeedEvent) => {
+      switch (event.type) {
+        case "books":
+          store.queueBooks(event.symbol, event.orderbooks)
+          break
 
-  /**
-   * Send heartbeat/ping messages to keep connections alive
-   */
-  const setupHeartbeat = useCallback((ws: WebSocket, venue: Venue, key: string) => {
-    const interval = setInterval(() => {
-      if (ws.readyState === WebSocket.OPEN) {
-        try {
-          switch (venue) {
-            case "OKX":
-              ws.send("ping")
-              break
-            case "Bybit":
-              ws.send(JSON.stringify({ op: "ping" }))
-              break
-            case "Deribit":
-              ws.send(
-                JSON.stringify({
-                  jsonrpc: "2.0",
-                  method: "public/ping",
-                  id: Date.now(),
-                }),
-              )
-              break
-          }
-        } catch (error) {
-          console.error(`Heartbeat failed for ${venue}:`, error)
-          clearInterval(interval)
-        }
-      } else {
-        clearInterval(interval)
-      }
-    }, 30000) // Send heartbeat every 30 seconds
+        case "trades":
+          if (event.symbol !== currentSymbol.current) return
+          setTrades((prev) => mergeTrades(prev, event.trades, event.reset))
+          break
 
-    heartbeatIntervals.current[key] = interval
-  }, [])
+        case "tickers":
+          if (event.symbol !== currentSymbol.current) return
+          setTickers((prev) => ({ ...prev, ...event.tickers }))
+          break
 
-  /**
-   * Connect to a specific venue with proper error handling
-   */
-  const connectToVenue = useCallback(
-    (venue: Venue, symbol: Symbol) => {
-      const key = `${venue}-${symbol}`
-
-      // Clean up existing connection
-      if (websockets.current[key]) {
-        websockets.current[key].close()
-        delete websockets.current[key]
-      }
+        case "status":
+          if (event.symbol !== currentSymbol.current) return
+          setConnectionStatus((prev) => ({ ...prev, [event.venue]: event.status }))
+          break
 
-      if (heartbeatIntervals.current[key]) {
-        clearInterval(heartbeatIntervals.current[key])
-        delete heartbeatIntervals.current[key]
-      }
+        case "reconnect":
+          if (event.symbol !== currentSymbol.current) return
+          setReconnectState((prev) => ({ ...prev, [event.venue]: event.state }))
+          break
 
-      if (reconnectTimeouts.current[key]) {
-        clearTimeout(reconnectTimeouts.current[key])
-        delete reconnectTimeouts.current[key]
-      }
+        case "latency":
+          if (event.symbol !== currentSymbol.current) return
+          setLatencyStats((prev) => ({ ...prev, [event.venue]: event.stats }))
+          break
 
-      setConnectionStatus((prev) => ({ ...prev, [venue]: "connecting" }))
-
-      try {
-        let wsUrl: string
-        let subscribeMessage: any
-        const formattedSymbol = formatSymbolForVenue(venue, symbol)
-
-        // Configure connection for each venue
-        switch (venue) {
-          case "OKX":
-            wsUrl = "wss://ws.okx.com:8443/ws/v5/public"
-            subscribeMessage = {
-              op: "subscribe",
-              args: [
-                {
-                  channel: "books",
-                  instId: formattedSymbol,
-                },
-              ],
-            }
-            break
-
-          case "Bybit":
-            // Use correct Bybit WebSocket endpoint
-            wsUrl = "wss://stream.bybit.com/v5/public/spot"
-            subscribeMessage = {
-              op: "subscribe",
-              args: [`orderbook.1.${formattedSymbol}`],
-            }
-            break
-
-          case "Deribit":
-            wsUrl = "wss://www.deribit.com/ws/api/v2"
-            subscribeMessage = {
-              jsonrpc: "2.0",
-              method: "public/subscribe",
-              id: Date.now(),
-              params: {
-                channels: [`book.${formattedSymbol}.100ms`],
-              },
-            }
-            break
-
-          default:
-            throw new Error(`Unsupported venue: ${venue}`)
-        }
-
-        const ws = createWebSocket(wsUrl, venue)
-        if (!ws) return
-
-        // Connection timeout
-        const connectionTimeout = setTimeout(() => {
-          if (ws.readyState !== WebSocket.OPEN) {
-            console.warn(`${venue} connection timeout, falling back to mock data`)
-            ws.close()
-            setConnectionStatus((prev) => ({ ...prev, [venue]: "connected" }))
-            setOrderbooks((prev) => ({
-              ...prev,
-              [venue]: getMockOrderbookForVenue(venue, symbol),
-            }))
-
-            // Update mock data periodically
-            const mockInterval = setInterval(() => {
-              setOrderbooks((prev) => ({
-                ...prev,
-                [venue]: getMockOrderbookForVenue(venue, symbol),
-              }))
-            }, 2000)
-
-            reconnectTimeouts.current[`${key}-mock`] = mockInterval as any
-          }
-        }, 15000) // 15 second timeout
-
-        ws.onopen = () => {
-          clearTimeout(connectionTimeout)
-          console.log(`✅ ${venue} WebSocket connected successfully`)
-          setConnectionStatus((prev) => ({ ...prev, [venue]: "connected" }))
-          setError(null)
-
-          // Send subscription message
-          try {
-            ws.send(JSON.stringify(subscribeMessage))
-            console.log(`📡 Subscribed to ${venue} orderbook for ${formattedSymbol}`)
-          } catch (error) {
-            console.error(`Failed to subscribe to ${venue}:`, error)
-          }
-
-          // Setup heartbeat
-          setupHeartbeat(ws, venue, key)
-        }
-
-        ws.onmessage = (event) => {
-          try {
-            let data: any
-
-            // Handle different message types
-            if (typeof event.data === "string") {
-              // Handle ping/pong messages
-              if (event.data === "pong") return
-
-              try {
-                data = JSON.parse(event.data)
-              } catch (parseError) {
-                console.warn(`Failed to parse ${venue} message:`, event.data)
-                return
-              }
-            } else {
-              console.warn(`Received non-string message from ${venue}`)
-              return
-            }
-
-            // Handle subscription confirmations
-            if (venue === "Bybit" && data.success && data.op === "subscribe") {
-              console.log(`✅ ${venue} subscription confirmed:`, data.args)
-              return
-            }
-
-            if (venue === "Deribit" && data.result === "ok") {
-              console.log(`✅ ${venue} subscription confirmed`)
-              return
-            }
-
-            if (venue === "OKX" && data.event === "subscribe") {
-              console.log(`✅ ${venue} subscription confirmed:`, data.arg)
-              return
-            }
-
-            // Parse orderbook data
-            const orderbook = parseOrderbookData(venue, data)
-            if (orderbook) {
-              setOrderbooks((prev) => ({ ...prev, [venue]: orderbook }))
-            }
-          } catch (error) {
-            console.error(`Error processing ${venue} message:`, error)
-          }
-        }
-
-        ws.onerror = (event) => {
-          console.error(`❌ ${venue} WebSocket error:`, {
-            venue,
-            symbol: formattedSymbol,
-            readyState: ws.readyState,
-            url: wsUrl,
-          })
-          setConnectionStatus((prev) => ({ ...prev, [venue]: "error" }))
-          setError(`${venue} connection failed. Using mock data for demonstration.`)
-        }
-
-        ws.onclose = (event) => {
-          console.log(`🔌 ${venue} WebSocket closed:`, {
-            code: event.code,
-            reason: event.reason,
-            wasClean: event.wasClean,
-          })
-
-          setConnectionStatus((prev) => ({ ...prev, [venue]: "disconnected" }))
-
-          // Clean up heartbeat
-          if (heartbeatIntervals.current[key]) {
-            clearInterval(heartbeatIntervals.current[key])
-            delete heartbeatIntervals.current[key]
-          }
-
-          // Attempt reconnection for unexpected closures
-          if (event.code !== 1000 && event.code !== 1001) {
-            console.log(`🔄 Scheduling reconnection for ${venue} in 5 seconds...`)
-            reconnectTimeouts.current[key] = setTimeout(() => {
-              connectToVenue(venue, symbol)
-            }, 5000)
-          }
-        }
-
-        websockets.current[key] = ws
-      } catch (error) {
-        console.error(`Failed to connect to ${venue}:`, error)
-        setConnectionStatus((prev) => ({ ...prev, [venue]: "error" }))
-        setError(`Failed to connect to ${venue}: ${error instanceof Error ? error.message : "Unknown error"}`)
-
-        // Fall back to mock data immediately on connection failure
-        setOrderbooks((prev) => ({
-          ...prev,
-          [venue]: getMockOrderbookForVenue(venue, symbol),
-        }))
-      }
-    },
-    [formatSymbolForVenue, createWebSocket, setupHeartbeat],
-  )
+        case "checksumMismatch":
+          if (event.symbol !== currentSymbol.current) return
+          setChecksumMismatches((prev) => ({ ...prev, [event.venue]: prev[event.venue] + 1 }))
+          break
+
+        case "error":
+          setError(event.message)
+          break
+
+        case "diagnostics":
+          diagnostics.update(event.diagnostics)
+          break
 
-  /**
-   * Parse orderbook data from different venue formats
-   */
-  const parseOrderbookData = useCallback((venue: Venue, data: any): Orderbook | null => {
-    try {
-      switch (venue) {
-        case "OKX":
-          if (data.data && Array.isArray(data.data) && data.data[0]) {
-            const orderbookData = data.data[0]
-            if (orderbookData.bids && orderbookData.asks) {
-              return {
-                bids: orderbookData.bids
-                  .map(([price, size]: [string, string]) => [Number.parseFloat(price), Number.parseFloat(size)])
-                  .filter(([price, size]: [number, number]) => price > 0 && size > 0)
-                  .slice(0, 25),
-                asks: orderbookData.asks
-                  .map(([price, size]: [string, string]) => [Number.parseFloat(price), Number.parseFloat(size)])
-                  .filter(([price, size]: [number, number]) => price > 0 && size > 0)
-                  .slice(0, 25),
-                timestamp: Date.now(),
-              }
-            }
-          }
+        case "recording":
+          setRecordingStatus(event.status)
           break
 
-        case "Bybit":
-          if (data.topic && data.topic.includes("orderbook") && data.data) {
-            const orderbookData = data.data
-            if (orderbookData.b && orderbookData.a) {
-              return {
-                bids: orderbookData.b
-                  .map(([price, size]: [string, string]) => [Number.parseFloat(price), Number.parseFloat(size)])
-                  .filter(([price, size]: [number, number]) => price > 0 && size > 0)
-                  .slice(0, 25),
-                asks: orderbookData.a
-                  .map(([price, size]: [string, string]) => [Number.parseFloat(price), Number.parseFloat(size)])
-                  .filter(([price, size]: [number, number]) => price > 0 && size > 0)
-                  .slice(0, 25),
-                timestamp: Date.now(),
-              }
-            }
-          }
+        case "recordingComplete":
+          if (event.blob.size > 0) downloadBlob(event.blob, event.fileName)
           break
 
-        case "Deribit":
-          if (data.params && data.params.data) {
-            const orderbookData = data.params.data
-            if (orderbookData.bids && orderbookData.asks) {
-              return {
-                bids: orderbookData.bids
-                  .filter(([price, size]: [number, number]) => price > 0 && size > 0)
-                  .slice(0, 25),
-                asks: orderbookData.asks
-                  .filter(([price, size]: [number, number]) => price > 0 && size > 0)
-                  .slice(0, 25),
-                timestamp: Date.now(),
-              }
-            }
-          }
+        case "replayState":
+          setReplayState(event.state)
           break
       }
-    } catch (error) {
-      console.error(`Error parsing ${venue} orderbook:`, error)
     }
-    return null
-  }, [])
 
-  // Effect to manage connections
-  useEffect(() => {
-    console.log(`🚀 Connecting to venues for symbol: ${symbol}`)
+    // Books from the previous feed must not mix with replayed ones, and vice versa
+    store.clear()
+    diagnostics.clear()
+    setTrades(createVenueRecord<Trade[]>([]))
+    setTickers(createVenueRecord(null))
+    setLatencyStats(createVenueRecord(null))
+    setChecksumMismatches(createVenueRecord(0))
+    setReplayState(null)
 
-    venues.forEach((venue) => {
-      connectToVenue(venue, symbol)
-    })
+    feed.current = createFeedClient(handleEvent, mode, capture)
+
+    // After a mode switch the new feed picks up the existing subscription
+    if (subscription.current) feed.current.send(subscription.current)
 
     // Cleanup function
     return () => {
-      console.log("🧹 Cleaning up WebSocket connections")
+      feed.current?.dispose()
+      feed.current = null
+    }
+  }, [store, diagnostics, mode, capture])
 
-      Object.values(websockets.current).forEach((ws) => {
-        if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-          ws.close(1000, "Component unmounting")
-        }
-      })
+  // Effect to manage subscriptions
+  useEffect(() => {
+    // The tape and tickers belong to one symbol, so a new symbol starts without them
+    if (currentSymbol.current !== symbol) {
+      setTrades(createVenueRecord<Trade[]>([]))
+      setTickers(createVenueRecord(null))
+    }
+    currentSymbol.current = symbol
+    subscription.current = { type: "subscribe", venues, symbol, channels, watchlist, mockRegime }
+    feed.current?.send(subscription.current)
+  }, [venues, symbol, channels, watchlist, mockRegime])
 
-      Object.values(reconnectTimeouts.current).forEach((timeout) => {
-        clearTimeout(timeout)
-      })
+  // Symbols dropped from the watchlist stop updating, so their last books are discarded
+  useEffect(() => {
+    store.retain([symbol, ...watchlist])
+  }, [store, symbol, watchlist])
 
-      Object.values(heartbeatIntervals.current).forEach((interval) => {
-        clearInterval(interval)
-      })
+  useEffect(() => () => store.dispose(), [store])
 
-      websockets.current = {}
-      reconnectTimeouts.current = {}
-      heartbeatIntervals.current = {}
-    }
-  }, [venues, symbol, connectToVenue])
+  /** Skip the backoff wait for a venue, or start over after it gave up */
+  const retryNow = useCallback((venue: Venue) => {
+    feed.current?.send({ type: "retry", venue })
+  }, [])
+
+  const startRecording = useCallback((limits: RecordingLimits) => {
+    feed.current?.send({ type: "startRecording", limits })
+  }, [])
+
+  const stopRecording = useCallback(() => {
+    feed.current?.send({ type: "stopRecording" })
+  }, [])
+
+  const playReplay = useCallback(() => {
+    feed.current?.send({ type: "replayPlay" })
+  }, [])
+
+  const pauseReplay = useCallback(() => {
+    feed.current?.send({ type: "replayPause" })
+  }, [])
+
+  const seekReplay = useCallback((position: number) => {
+    feed.current?.send({ type: "replaySeek", position })
+  }, [])
+
+  const setReplaySpeed = useCallback((speed: number) => {
+    feed.current?.send({ type: "replaySpeed", speed })
+  }, [])
 
-  return { orderbooks, connectionStatus, error }
+  return {
+    store,
+    diagnostics,
+    trades,
+    tickers,
+    connectionStatus,
+    reconnectState,
+    retryNow,
+    latencyStats,
+    checksumMismatches,
+    recordingStatus,
+    startRecording,
+    stopRecording,
+    replayState,
+    playReplay,
+    pauseReplay,
+    seekReplay,
+    setReplaySpeed,
+    error,
+  }
 }
@@ -0,0 +1,58 @@
+"use client"
+
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+import type { Orderbook, Symbol, Venue } from "@/types/trading"
+import { VENUES } from "@/lib/venues"
+import type { OrderbookStore } from "@/lib/feed/orderbook-store"
+
+/**
+ * Part of one venue's book for a symbol; the component re-renders only when that part changes.
+ * The selector must return the book itself or a primitive, since a new object every call never compares equal.
+ */
+export function useOrderbookSelector<T>(
+  store: OrderbookStore,
+  venue: Venue,
+  symbol: Symbol,
+  select: (orderbook: Orderbook | null) => T,
+): T {
+  const subscribe = useCallback(
+    (listener: () => void) => store.subscribe(venue, symbol, listener),
+    [store, venue, symbol],
+  )
+  return useSyncExternalStore(
+    subscribe,
+    () => select(store.getBook(venue, symbol)),
+    () => select(null),
+  )
+}
+
+const selectBook = (orderbook: Orderbook | null) => orderbook
+
+/**
+ * Latest book of one venue and symbol, re-rendering at most once per frame and only when that book changes
+ */
+export function useOrderbook(store: OrderbookStore, venue: Venue, symbol: Symbol): Orderbook | null {
+  return useOrderbookSelector(store, venue, symbol, selectBook)
+}
+
+/**
+ * Books of every venue for several symbols, e.g. the watchlist. Re-renders whenever any book changes.
+ */
+export function useSymbolBooks(
+  store: OrderbookStore,
+  symbols: Symbol[],
+): Partial<Record<Symbol, Partial<Record<Venue, Orderbook>>>> {
+  const version = useSyncExternalStore(store.subscribeAll, store.getVersion, () => 0)
+
+  return useMemo(() => {
+    const books: Partial<Record<Symbol, Partial<Record<Venue, Orderbook>>>> = {}
+    symbols.forEach((symbol) => {
+      VENUES.forEach((venue) => {
+        const orderbook = store.getBook(venue, symbol)
+        if (orderbook) books[symbol] = { ...books[symbol], [venue]: orderbook }
+      })
+    })
+    return books
+    // The store mutates in place, so the version is what signals new books
+  }, [store, symbols, version])
+}
@@ -0,0 +1,96 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { computeKrakenChecksum, computeOkxChecksum, crc32 } from "./checksum"
+import { getInstrument } from "./instruments"
+import { createLocalOrderbook, type LevelUpdate } from "./local-orderbook"
+import { krakenAdapter } from "./venues/kraken"
+
+// Expected checksums below were computed independently with Python's zlib.crc32
+
+/** Levels as a venue sends them, keeping the original strings the checksums are built from */
+const textLevels = (levels: [string, string][]): LevelUpdate[] =>
+  levels.map(([price, size]) => [Number(price), Number(size), [price, size]])
+
+const bookOf = (bids: [string, string][], asks: [string, string][]) => {
+  const book = createLocalOrderbook()
+  book.apply({ action: "snapshot", bids: textLevels(bids), asks: textLevels(asks) })
+  return book
+}
+
+test("crc32 matches the standard check value", () => {
+  assert.equal(crc32("123456789"), 0xcbf43926)
+  assert.equal(crc32(""), 0)
+})
+
+test("OKX checksum interleaves bids and asks and is signed", () => {
+  // "3366.1:7:3366.8:9:3366:6:3368:8"
+  const book = bookOf(
+    [
+      ["3366.1", "7"],
+      ["3366", "6"],
+    ],
+    [
+      ["3366.8", "9"],
+      ["3368", "8"],
+    ],
+  )
+  assert.equal(computeOkxChecksum(book), -1881014294)
+
+  // The top bid is removed: "3366:6:3366.8:9:3368:8"
+  book.apply({ action: "delta", bids: textLevels([["3366.1", "0"]]), asks: [] })
+  assert.equal(computeOkxChecksum(book), 2036122825)
+})
+
+test("OKX checksum covers 25 levels and keeps interleaving once a side runs out", () => {
+  const bids = Array.from({ length: 30 }, (_, i): [string, string] => [String(100 - i * 0.5), String(i + 1)])
+  const book = bookOf(bids, [
+    ["100.5", "2"],
+    ["101", "0.25"],
+  ])
+  assert.equal(computeOkxChecksum(book), -94113575)
+})
+
+test("Kraken checksum strips decimal points and leading zeros, asks first", () => {
+  // "5005500" + "5010500" then "5000500"
+  const book = bookOf(
+    [["0.05000", "0.00000500"]],
+    [
+      ["0.05005", "0.00000500"],
+      ["0.05010", "0.00000500"],
+    ],
+  )
+  assert.equal(computeKrakenChecksum(book), 1725113685)
+})
+
+test("Kraken checksum covers the top 10 asks and 10 bids", () => {
+  const asks = Array.from({ length: 12 }, (_, i): [string, string] => [`${100 + i}.5`, `${i + 1}.00000000`])
+  const bids = Array.from({ length: 12 }, (_, i): [string, string] => [`${99 - i}.5`, "0.01000000"])
+  assert.equal(computeKrakenChecksum(bookOf(bids, asks)), 4080574542)
+})
+
+test("Kraken levels sent as numbers are checksummed at the pair's precision", () => {
+  // BTC/USD trades in 0.1 ticks and 1e-8 lots, so 45280 is "45280.0" and 2 is "2.00000000"
+  const frame = {
+    channel: "book",
+    type: "snapshot",
+    data: [
+      {
+        symbol: "BTC/USD",
+        bids: [
+          { price: 45283.5, qty: 0.1 },
+          { price: 45280, qty: 2 },
+        ],
+        asks: [
+          { price: 45285.2, qty: 0.001 },
+          { price: 45286.4, qty: 1.5 },
+        ],
+        checksum: 435072837,
+      },
+    ],
+  }
+  const book = createLocalOrderbook()
+  book.apply(krakenAdapter.parseMessage(frame, getInstrument("Kraken", "BTC-USD") ?? undefined)!)
+
+  assert.equal(krakenAdapter.verifyChecksum!(book, frame), true)
+  assert.equal(krakenAdapter.verifyChecksum!(book, { data: [{ checksum: 435072838 }] }), false)
+})
@@ -0,0 +1,66 @@
+import type { LevelUpdate, LocalOrderbook } from "@/lib/local-orderbook"
+
+/** Number of levels per side covered by the OKX books checksum */
+export const OKX_CHECKSUM_DEPTH = 25
+
+/** Number of levels per side covered by the Kraken book checksum */
+export const KRAKEN_CHECKSUM_DEPTH = 10
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * Standard CRC32 (IEEE 802.3) of a string, returned as an unsigned 32-bit integer.
+ * Checksum inputs are plain ASCII price/size strings, so char codes are used directly.
+ */
+export const crc32 = (input: string): number => {
+  let crc = 0xffffffff
+  for (let i = 0; i < input.length; i++) {
+    crc = CRC32_TABLE[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * OKX books checksum: interleave the top 25 bids and asks as "price:size" strings,
+ * join them with ":" and take the CRC32 as a signed 32-bit integer.
+ */
+export const computeOkxChecksum = (book: LocalOrderbook): number => {
+  const bids = book.getLevels("bids", OKX_CHECKSUM_DEPTH)
+  const asks = book.getLevels("asks", OKX_CHECKSUM_DEPTH)
+  const parts: string[] = []
+
+  const levelText = ([price, size, text]: LevelUpdate) => (text ? `${text[0]}:${text[1]}` : `${price}:${size}`)
+
+  for (let i = 0; i < OKX_CHECKSUM_DEPTH; i++) {
+    if (bids[i]) parts.push(levelText(bids[i]))
+    if (asks[i]) parts.push(levelText(asks[i]))
+  }
+
+  return crc32(parts.join(":")) | 0
+}
+
+/**
+ * Kraken v2 book checksum: for the top 10 asks (ascending) then the top 10 bids (descending),
+ * concatenate price and quantity strings at the instrument precision with the decimal point
+ * and leading zeros removed, and take the unsigned CRC32.
+ */
+export const computeKrakenChecksum = (book: LocalOrderbook): number => {
+  const normalize = (value: string) => value.replace(".", "").replace(/^0+/, "")
+  const levelText = ([price, size, text]: LevelUpdate) =>
+    text ? `${normalize(text[0])}${normalize(text[1])}` : `${normalize(String(price))}${normalize(String(size))}`
+
+  const asks = book.getLevels("asks", KRAKEN_CHECKSUM_DEPTH).map(levelText).join("")
+  const bids = book.getLevels("bids", KRAKEN_CHECKSUM_DEPTH).map(levelText).join("")
+
+  return crc32(asks + bids)
+}
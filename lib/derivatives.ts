@@ -0,0 +1,29 @@
+import type { DerivativesTicker } from "@/types/trading"
+
+export interface Basis {
+  /** Mark minus index, in quote currency */
+  value: number
+  /** The same difference in basis points of the index */
+  bps: number
+}
+
+/**
+ * Perpetual premium over the index. Mark price is used rather than the book mid because the
+ * OKX and Bybit books shown are spot markets; only Deribit's book is the perpetual itself.
+ */
+export const calculateBasis = (ticker: DerivativesTicker | null | undefined): Basis | null => {
+  if (!ticker || ticker.markPrice === null || !ticker.indexPrice) return null
+
+  const value = ticker.markPrice - ticker.indexPrice
+  return { value, bps: (value / ticker.indexPrice) * 10000 }
+}
+
+/**
+ * Time left until the next funding settlement as h:mm:ss
+ */
+export const formatFundingCountdown = (nextFundingTime: number, now: number): string => {
+  const seconds = Math.max(0, Math.floor((nextFundingTime - now) / 1000))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`
+}
@@ -0,0 +1,286 @@
+import type { Venue, Symbol, Orderbook, ConnectionStatus, Trade } from "@/types/trading"
+import { MAX_PUBLISH_DEPTH, createLocalOrderbook, type BookSequence, type BookUpdate } from "@/lib/local-orderbook"
+import { getBookChannel, getVenueAdapter } from "@/lib/venues"
+import { getInstrument } from "@/lib/instruments"
+
+/** Callbacks a book processor reports through */
+export interface BookProcessorHandlers {
+  /** Full view of the local book after every applied update */
+  onBook: (orderbook: Orderbook) => void
+  /** "connected" once a snapshot is applied, "resyncing" when the book is discarded */
+  onStatus: (status: ConnectionStatus) => void
+  onError: (message: string | null) => void
+  onChecksumMismatch: () => void
+  /** Trades from the venue's trades channel, oldest first */
+  onTrades?: (trades: Trade[]) => void
+  /** Resyncs and dropped frames, for the connection's event log */
+  onEvent?: (message: string) => void
+  /** Every parsed book update as it arrives, before sequencing */
+  onUpdate?: (update: BookUpdate, receivedAt: number) => void
+  /** The book was rebuilt from a snapshot and is publishing again */
+  onSynced?: () => void
+  /** The book was discarded on a venue whose snapshots come from the stream, so it must resubscribe */
+  onResubscribe?: () => void
+}
+
+export interface BookProcessorOptions {
+  /** Fetch REST snapshots for venues that need them; off when replaying captures offline */
+  fetchSnapshots?: boolean
+}
+
+export interface BookProcessor {
+  /** Decode and apply one inbound text frame */
+  handleMessage: (raw: string, receivedAt: number) => void
+  /** Apply a frame that has already been decoded, e.g. by a connection routing it by instrument */
+  handleData: (data: any, receivedAt: number) => void
+  /** Drop the book and sequence state, e.g. for a new socket or a replay seek */
+  reset: () => void
+  /** Load the initial REST snapshot for venues whose stream only carries deltas */
+  bootstrap: () => void
+  /** Publish a book that did not come from the stream, e.g. mock data */
+  publish: (orderbook: Orderbook) => void
+  /** Re-publish the last live book flagged as no longer updating */
+  markStale: () => void
+  /** Stop reacting to pending snapshot requests */
+  dispose: () => void
+}
+
+/** Stream update held back until the REST snapshot it builds on has been applied */
+interface BufferedUpdate {
+  update: BookUpdate
+  data: any
+  receivedAt: number
+}
+
+/**
+ * Turn a venue's raw frames into published books and trades: parsing, local book maintenance,
+ * sequence and checksum checks, and snapshot bootstrapping.
+ * Has no socket of its own, so live connections and capture replay share the exact same path.
+ */
+export function createBookProcessor(
+  venue: Venue,
+  symbol: Symbol,
+  channelId: string | undefined,
+  handlers: BookProcessorHandlers,
+  { fetchSnapshots = true }: BookProcessorOptions = {},
+): BookProcessor {
+  const adapter = getVenueAdapter(venue)
+  const spec = getInstrument(venue, symbol)
+  if (!spec) throw new Error(`${venue} does not list ${symbol}`)
+  const instrument = spec.instrument
+  const channel = getBookChannel(venue, channelId)
+  const publishDepth = Math.min(channel.depth ?? MAX_PUBLISH_DEPTH, MAX_PUBLISH_DEPTH)
+
+  let localBook = createLocalOrderbook()
+  let lastSequence: BookSequence | null = null
+  let pendingUpdates: BufferedUpdate[] | null = null
+  let snapshotRetryTimeout: ReturnType<typeof setTimeout> | null = null
+  let lastBook: Orderbook | null = null
+  let disposed = false
+
+  /**
+   * Check a parsed update against the last applied sequence using the venue's rules.
+   * Stale updates are already covered by the snapshot; gaps mean an update was lost.
+   */
+  const checkSequence = (update: BookUpdate): "ok" | "stale" | "gap" => {
+    const sequence = update.sequence
+    if (!sequence || !adapter.isContinuous) return "ok"
+
+    if (update.action === "snapshot") {
+      lastSequence = sequence
+      return "ok"
+    }
+
+    if (!lastSequence) return "gap"
+    if (adapter.isStale?.(lastSequence, sequence)) return "stale"
+    if (!adapter.isContinuous(lastSequence, sequence)) return "gap"
+
+    lastSequence = sequence
+    return "ok"
+  }
+
+  // Books carry their instrument so display and simulation know the tick, lot and size unit
+  const publish = (orderbook: Orderbook) => {
+    lastBook = { ...orderbook, instrument: spec }
+    handlers.onBook(lastBook)
+  }
+
+  /**
+   * Keep showing the last live book, but flagged as no longer updating
+   */
+  const markStale = () => {
+    if (lastBook?.source === "live") {
+      publish({ ...lastBook, source: "stale" })
+    }
+  }
+
+  /**
+   * Discard the local book until a fresh snapshot arrives
+   */
+  const invalidateBook = () => {
+    localBook.clear()
+    lastSequence = null
+    handlers.onStatus("resyncing")
+    markStale()
+  }
+
+  /**
+   * Apply a parsed update to the local book and publish the full view.
+   * Returns false when a sequence gap or checksum mismatch discarded the book and a new snapshot is needed.
+   */
+  const applyBookUpdate = (update: BookUpdate, data: any, receivedAt: number): boolean => {
+    const sequenceState = checkSequence(update)
+    if (sequenceState === "stale") return true
+    if (sequenceState === "gap") {
+      // Deltas arriving while a resync is pending are expected and just dropped
+      if (localBook.isEmpty()) return true
+
+      handlers.onEvent?.("Sequence gap, resyncing")
+      invalidateBook()
+      return false
+    }
+
+    const wasEmpty = localBook.isEmpty()
+    localBook.apply(update)
+    if (localBook.isEmpty()) return true
+
+    if (channel.depth) {
+      localBook.truncate(channel.depth)
+    }
+
+    if (adapter.verifyChecksum && !adapter.verifyChecksum(localBook, data)) {
+      handlers.onEvent?.("Checksum mismatch, resyncing")
+      handlers.onChecksumMismatch()
+      invalidateBook()
+      return false
+    }
+
+    if (wasEmpty) {
+      handlers.onStatus("connected")
+      handlers.onSynced?.()
+    }
+    publish({
+      ...localBook.toOrderbook(publishDepth),
+      exchangeTimestamp: update.exchangeTimestamp,
+      matchTimestamp: update.matchTimestamp,
+      receivedAt,
+    })
+    return true
+  }
+
+  /**
+   * Fetch a REST snapshot for venues whose stream only carries deltas.
+   * Stream updates are buffered meanwhile and replayed on top of the snapshot.
+   */
+  const bootstrap = () => {
+    if (!adapter.fetchSnapshot || !fetchSnapshots) return
+
+    const book = localBook
+    const buffer: BufferedUpdate[] = []
+    pendingUpdates = buffer
+
+    adapter
+      .fetchSnapshot(instrument)
+      .then((snapshot) => {
+        // Ignore snapshots for a book that has since been replaced
+        if (disposed || localBook !== book || pendingUpdates !== buffer) return
+        pendingUpdates = null
+
+        const inSync = [{ update: snapshot, data: null, receivedAt: Date.now() }, ...buffer].every(
+          ({ update, data, receivedAt }) => applyBookUpdate(update, data, receivedAt),
+        )
+
+        // The snapshot is older than the first buffered update, so fetch another one
+        if (!inSync) bootstrap()
+      })
+      .catch((error) => {
+        if (disposed || pendingUpdates !== buffer) return
+
+        handlers.onError(
+          `Failed to fetch ${venue} snapshot: ${error instanceof Error ? error.message : "Unknown error"}`,
+        )
+        snapshotRetryTimeout = setTimeout(bootstrap, 5000)
+      })
+  }
+
+  /**
+   * Request a fresh snapshot after the local book was discarded
+   */
+  const requestSnapshot = () => {
+    if (adapter.fetchSnapshot) {
+      bootstrap()
+    } else {
+      handlers.onResubscribe?.()
+    }
+  }
+
+  const handleMessage = (raw: string, receivedAt: number) => {
+    if (disposed) return
+
+    let data: any
+    try {
+      data = JSON.parse(raw)
+    } catch (parseError) {
+      // Plain text frames are only expected as heartbeat replies
+      if (!adapter.heartbeat?.isReply(raw)) {
+        handlers.onEvent?.(`Ignored an unparseable frame: ${raw.slice(0, 100)}`)
+      }
+      return
+    }
+
+    handleData(data, receivedAt)
+  }
+
+  const handleData = (data: any, receivedAt: number) => {
+    if (disposed) return
+
+    try {
+      // Handle ping/pong messages
+      if (adapter.heartbeat?.isReply(data)) return
+
+      // Handle subscription confirmations
+      if (adapter.isSubscriptionAck(data)) return
+
+      // Trades share the socket but never touch the book
+      const trades = adapter.trades?.parse(data)
+      if (trades) {
+        if (trades.length > 0) {
+          handlers.onTrades?.(trades.map((trade) => ({ ...trade, venue, symbol, receivedAt })))
+        }
+        return
+      }
+
+      // Apply snapshot/delta to the local book and publish the full view
+      const update = adapter.parseMessage(data, spec)
+      if (!update) return
+
+      handlers.onUpdate?.(update, receivedAt)
+
+      if (pendingUpdates) {
+        pendingUpdates.push({ update, data, receivedAt })
+        return
+      }
+
+      if (!applyBookUpdate(update, data, receivedAt)) {
+        requestSnapshot()
+      }
+    } catch (error) {
+      handlers.onEvent?.(`Failed to process a frame: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  const reset = () => {
+    if (snapshotRetryTimeout) clearTimeout(snapshotRetryTimeout)
+    snapshotRetryTimeout = null
+    localBook = createLocalOrderbook()
+    lastSequence = null
+    pendingUpdates = null
+  }
+
+  const dispose = () => {
+    disposed = true
+    reset()
+  }
+
+  return { handleMessage, handleData, reset, bootstrap, publish, markStale, dispose }
+}
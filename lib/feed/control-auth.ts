@@ -0,0 +1,26 @@
+import { timingSafeEqual } from "node:crypto"
+
+/**
+ * Whether a request may use an endpoint that acts on the server, e.g. writing captures or forcing reconnects,
+ * or the error response to send. Such endpoints are open in development; elsewhere they are disabled unless
+ * `token` is set, and requests must then send `Authorization: Bearer <token>`.
+ */
+export const authorizeControlRequest = (
+  request: Request,
+  token: string | undefined,
+  tokenName: string,
+  feature: string,
+): Response | null => {
+  if (!token) {
+    return process.env.NODE_ENV === "development"
+      ? null
+      : Response.json({ error: `${feature} is disabled; set ${tokenName} to enable it` }, { status: 403 })
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const provided = Buffer.from(request.headers.get("authorization") ?? "")
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return Response.json({ error: `Invalid or missing ${tokenName}` }, { status: 401 })
+  }
+  return null
+}
@@ -0,0 +1,298 @@
+import type { ConnectionStatus, Symbol, Venue } from "@/types/trading"
+import type { FeedMode } from "./protocol"
+import type { LatencyStats } from "./latency-stats"
+import type { ReconnectState } from "./reconnect"
+
+/** How often a connection reports its diagnostics */
+export const DIAGNOSTICS_REPORT_INTERVAL_MS = 1000
+
+/** Seconds the message rate is averaged over */
+export const MESSAGE_RATE_WINDOW_SECONDS = 10
+
+/** Entries kept in a connection's event log */
+export const MAX_CONNECTION_EVENTS = 50
+
+/** One entry of a connection's event log, e.g. a subscription or a resync */
+export interface ConnectionEvent {
+  at: number
+  message: string
+}
+
+/** The most recent failure of a connection */
+export interface ConnectionError {
+  message: string
+  at: number
+  /** WebSocket close code, when the failure was an unexpected close */
+  code?: number
+  /** Close reason sent by the venue, often empty */
+  reason?: string
+}
+
+/**
+ * Health of one socket, for the diagnostics drawer and bug reports.
+ * Counters cover the connection's whole life, across reconnects.
+ */
+export interface ConnectionDiagnostics {
+  /** `venue:channel` for book sockets, `venue:ticker:instrument` for perpetual ticker sockets */
+  id: string
+  kind: "book" | "ticker"
+  venue: Venue
+  channel: string
+  url: string
+  status: ConnectionStatus
+  /** Venue instruments subscribed on the socket */
+  instruments: string[]
+  /** When the current socket opened, null while it is not open */
+  connectedAt: number | null
+  /** Inbound frames per second over the last MESSAGE_RATE_WINDOW_SECONDS */
+  messagesPerSecond: number
+  messagesReceived: number
+  /** Size of inbound frames; text frames count one byte per character, as venues send ASCII JSON */
+  bytesReceived: number
+  lastMessageAt: number | null
+  /** Sockets opened after the first one */
+  reconnects: number
+  /** Subscription acknowledgements received */
+  subscriptionAcks: number
+  lastAckAt: number | null
+  /** Time from the last heartbeat to its reply in ms, null before the first reply or for venues without heartbeats */
+  heartbeatRtt: number | null
+  lastError: ConnectionError | null
+  /** Lifecycle events and failures, oldest first, at most MAX_CONNECTION_EVENTS */
+  events: ConnectionEvent[]
+  reportedAt: number
+}
+
+export interface DiagnosticsTracker {
+  /** A socket is being opened */
+  recordConnect: () => void
+  recordOpen: (at: number) => void
+  /** Any inbound frame, before parsing */
+  recordMessage: (raw: unknown, receivedAt: number) => void
+  recordAck: (at: number) => void
+  recordHeartbeatSent: (at: number) => void
+  recordHeartbeatReply: (at: number) => void
+  /** A failure, also added to the event log; `close` carries the close frame of an unexpected close */
+  recordError: (message: string, close?: { code: number; reason: string }) => void
+  /** Add an entry to the event log */
+  recordEvent: (message: string) => void
+  /** The socket is no longer open */
+  recordClosed: () => void
+  snapshot: (status: ConnectionStatus, instruments: string[]) => ConnectionDiagnostics
+}
+
+const frameSize = (raw: unknown): number => {
+  if (typeof raw === "string") return raw.length
+  if (raw instanceof ArrayBuffer) return raw.byteLength
+  if (ArrayBuffer.isView(raw)) return raw.byteLength
+  return 0
+}
+
+/**
+ * Count traffic and failures of one socket. Message rates use one counter per second in a ring,
+ * so recording stays allocation-free on the hot path.
+ */
+export function createDiagnosticsTracker(
+  id: string,
+  kind: ConnectionDiagnostics["kind"],
+  venue: Venue,
+  channel: string,
+  url: string,
+): DiagnosticsTracker {
+  const counts = new Float64Array(MESSAGE_RATE_WINDOW_SECONDS)
+  const seconds = new Float64Array(MESSAGE_RATE_WINDOW_SECONDS).fill(-1)
+  let firstSecond: number | null = null
+  let connects = 0
+  let connectedAt: number | null = null
+  let messagesReceived = 0
+  let bytesReceived = 0
+  let lastMessageAt: number | null = null
+  let subscriptionAcks = 0
+  let lastAckAt: number | null = null
+  let heartbeatSentAt: number | null = null
+  let heartbeatRtt: number | null = null
+  let lastError: ConnectionError | null = null
+  let events: ConnectionEvent[] = []
+
+  const recordEvent = (message: string, at = Date.now()) => {
+    events = [...events.slice(1 - MAX_CONNECTION_EVENTS), { at, message }]
+  }
+
+  /** Average over the completed seconds of the window, or since the first message if that is shorter */
+  const messageRate = (now: number) => {
+    if (firstSecond === null) return 0
+    const current = Math.floor(now / 1000)
+    let total = 0
+    for (let i = 0; i < MESSAGE_RATE_WINDOW_SECONDS; i++) {
+      const age = current - seconds[i]
+      if (age >= 1 && age <= MESSAGE_RATE_WINDOW_SECONDS) total += counts[i]
+    }
+    const span = Math.min(MESSAGE_RATE_WINDOW_SECONDS, current - firstSecond)
+    return span > 0 ? total / span : 0
+  }
+
+  return {
+    recordConnect: () => {
+      connects++
+    },
+
+    recordOpen: (at) => {
+      connectedAt = at
+    },
+
+    recordMessage: (raw, receivedAt) => {
+      const second = Math.floor(receivedAt / 1000)
+      const slot = second % MESSAGE_RATE_WINDOW_SECONDS
+      if (seconds[slot] !== second) {
+        seconds[slot] = second
+        counts[slot] = 0
+      }
+      counts[slot]++
+      if (firstSecond === null) firstSecond = second
+
+      messagesReceived++
+      bytesReceived += frameSize(raw)
+      lastMessageAt = receivedAt
+    },
+
+    recordAck: (at) => {
+      subscriptionAcks++
+      lastAckAt = at
+    },
+
+    recordHeartbeatSent: (at) => {
+      heartbeatSentAt = at
+    },
+
+    recordHeartbeatReply: (at) => {
+      if (heartbeatSentAt === null) return
+      heartbeatRtt = at - heartbeatSentAt
+      heartbeatSentAt = null
+    },
+
+    recordError: (message, close) => {
+      lastError = { message, at: Date.now(), ...close }
+      recordEvent(close ? `${message} (close code ${close.code})` : message, lastError.at)
+    },
+
+    recordEvent: (message) => recordEvent(message),
+
+    recordClosed: () => {
+      connectedAt = null
+      heartbeatSentAt = null
+    },
+
+    snapshot: (status, instruments) => {
+      const now = Date.now()
+      return {
+        id,
+        kind,
+        venue,
+        channel,
+        url,
+        status,
+        instruments,
+        connectedAt,
+        messagesPerSecond: messageRate(now),
+        messagesReceived,
+        bytesReceived,
+        lastMessageAt,
+        reconnects: Math.max(0, connects - 1),
+        subscriptionAcks,
+        lastAckAt,
+        heartbeatRtt,
+        lastError,
+        events,
+        reportedAt: now,
+      }
+    },
+  }
+}
+
+/** Connections that stopped reporting for this long are considered closed and dropped */
+export const DIAGNOSTICS_STALE_MS = 5 * DIAGNOSTICS_REPORT_INTERVAL_MS
+
+export interface DiagnosticsStore {
+  /** Latest diagnostics per connection id; a new object after every change */
+  getSnapshot: () => Record<string, ConnectionDiagnostics>
+  subscribe: (listener: () => void) => () => void
+  update: (diagnostics: ConnectionDiagnostics) => void
+  clear: () => void
+}
+
+/**
+ * Latest diagnostics of every connection, outside React state so the reports arriving every second
+ * only re-render the diagnostics drawer, and only while it is open
+ */
+export function createDiagnosticsStore(): DiagnosticsStore {
+  let snapshot: Record<string, ConnectionDiagnostics> = {}
+  const listeners = new Set<() => void>()
+
+  const set = (next: Record<string, ConnectionDiagnostics>) => {
+    snapshot = next
+    listeners.forEach((listener) => listener())
+  }
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    update: (diagnostics) => {
+      const next: Record<string, ConnectionDiagnostics> = { [diagnostics.id]: diagnostics }
+      Object.values(snapshot).forEach((each) => {
+        if (each.id !== diagnostics.id && diagnostics.reportedAt - each.reportedAt < DIAGNOSTICS_STALE_MS) {
+          next[each.id] = each
+        }
+      })
+      set(next)
+    },
+
+    clear: () => set({}),
+  }
+}
+
+/** What the UI showed for one venue of the selected symbol */
+export interface VenueDiagnostics {
+  status: ConnectionStatus
+  reconnect: ReconnectState
+  latency: LatencyStats | null
+  checksumMismatches: number
+}
+
+/**
+ * Everything needed to look into a misbehaving feed after the fact, attached to bug reports as JSON
+ */
+export interface DiagnosticBundle {
+  generatedAt: string
+  userAgent: string | null
+  feed: {
+    mode: FeedMode
+    symbol: Symbol
+    watchlist: Symbol[]
+    channels: Partial<Record<Venue, string>>
+  }
+  connections: ConnectionDiagnostics[]
+  venues: Partial<Record<Venue, VenueDiagnostics>>
+  /** Last feed-level error shown to the user */
+  error: string | null
+}
+
+export const createDiagnosticBundle = (
+  connections: Record<string, ConnectionDiagnostics>,
+  feed: DiagnosticBundle["feed"],
+  venues: DiagnosticBundle["venues"],
+  error: string | null,
+): DiagnosticBundle => ({
+  generatedAt: new Date().toISOString(),
+  userAgent: typeof navigator === "undefined" ? null : navigator.userAgent,
+  feed,
+  connections: Object.values(connections).sort((a, b) => a.id.localeCompare(b.id)),
+  venues,
+  error,
+})
@@ -0,0 +1,278 @@
+import type { Venue, Symbol } from "@/types/trading"
+import { getBookChannel } from "@/lib/venues"
+import { getInstrument } from "@/lib/instruments"
+import type { MarketRegime } from "@/lib/synthetic-market"
+import { createFeedHub } from "./feed-hub"
+import type { RecordingStatus } from "./recorder"
+import { createReplayFeedClient, type ReplayCapture } from "./replay"
+import {
+  KEEPALIVE_INTERVAL_MS,
+  type FeedCommand,
+  type FeedEvent,
+  type FeedMode,
+  type SharedFeedMessage,
+  type SharedFeedReply,
+} from "./protocol"
+
+export interface FeedClient {
+  send: (command: FeedCommand) => void
+  dispose: () => void
+}
+
+/**
+ * Join the connection broker shared by all tabs of the viewer
+ */
+const createSharedWorkerClient = (onEvent: (event: FeedEvent) => void): FeedClient => {
+  const worker = new SharedWorker(new URL("../../workers/orderbook-feed.shared-worker.ts", import.meta.url), {
+    name: "orderbook-feed-shared",
+  })
+  const port = worker.port
+  // The subscription to take up again whenever the worker lost this tab's session
+  let subscription: FeedCommand | null = null
+
+  const post = (message: SharedFeedMessage) => port.postMessage(message)
+
+  port.onmessage = (event: MessageEvent<SharedFeedReply>) => {
+    if (event.data.type === "resync") {
+      if (subscription) post(subscription)
+      return
+    }
+    onEvent(event.data)
+  }
+  port.start()
+
+  const keepalive = setInterval(() => post({ type: "keepalive" }), KEEPALIVE_INTERVAL_MS)
+
+  // Release this tab's subscriptions on navigation away, and take them up again if the page is restored
+  const handlePageHide = () => post({ type: "disconnect" })
+  const handlePageShow = (event: PageTransitionEvent) => {
+    if (event.persisted && subscription) post(subscription)
+  }
+  window.addEventListener("pagehide", handlePageHide)
+  window.addEventListener("pageshow", handlePageShow)
+
+  return {
+    send: (command) => {
+      if (command.type === "subscribe" || command.type === "unsubscribe") subscription = command
+      post(command)
+    },
+    dispose: () => {
+      clearInterval(keepalive)
+      window.removeEventListener("pagehide", handlePageHide)
+      window.removeEventListener("pageshow", handlePageShow)
+      post({ type: "disconnect" })
+      port.close()
+    },
+  }
+}
+
+/**
+ * Run the feed in a worker owned by this tab
+ */
+const createDedicatedWorkerClient = (onEvent: (event: FeedEvent) => void): FeedClient => {
+  const worker = new Worker(new URL("../../workers/orderbook-feed.worker.ts", import.meta.url), {
+    name: "orderbook-feed",
+  })
+  worker.onmessage = (event: MessageEvent<FeedEvent>) => onEvent(event.data)
+  worker.onerror = (event) => console.error("Orderbook feed worker error:", event.message)
+
+  return {
+    send: (command) => worker.postMessage(command),
+    dispose: () => worker.terminate(),
+  }
+}
+
+const streamUrl = (
+  venue: Venue,
+  symbol: Symbol,
+  channel: string,
+  watchlist: Symbol[] = [],
+  mockRegime?: MarketRegime,
+) => {
+  const params = new URLSearchParams({ channel })
+  // The server refuses to watch symbols the venue does not list
+  const watched = watchlist.filter((each) => each !== symbol && getInstrument(venue, each))
+  if (watched.length > 0) params.set("watch", watched.join(","))
+  if (mockRegime) params.set("regime", mockRegime)
+  return `/api/stream/${encodeURIComponent(venue)}/${encodeURIComponent(symbol)}?${params}`
+}
+
+/**
+ * Receive books from the server's streaming API, one EventSource per venue.
+ * The server holds the exchange sockets, so only same-origin HTTP leaves the browser.
+ */
+const createServerStreamClient = (onEvent: (event: FeedEvent) => void): FeedClient => {
+  const streams = new Map<Venue, { url: string; source: EventSource }>()
+
+  const open = (venue: Venue, streamSymbol: Symbol, url: string) => {
+    const source = new EventSource(url)
+
+    source.onmessage = (event: MessageEvent<string>) => {
+      try {
+        onEvent(JSON.parse(event.data) as FeedEvent)
+      } catch (error) {
+        console.warn(`Failed to parse ${venue} stream event:`, error)
+      }
+    }
+
+    // EventSource reconnects by itself; until then the server-side state is unknown
+    source.onerror = () => {
+      if (streams.get(venue)?.source !== source) return
+      onEvent({ type: "status", venue, symbol: streamSymbol, status: "connecting" })
+    }
+
+    streams.set(venue, { url, source })
+  }
+
+  let recordingPoll: ReturnType<typeof setInterval> | null = null
+
+  const stopPolling = () => {
+    if (recordingPoll) clearInterval(recordingPoll)
+    recordingPoll = null
+  }
+
+  // The server records into files, so progress is polled rather than pushed
+  const reportRecording = (request: Promise<Response>) =>
+    request
+      .then(async (response) => {
+        if (response.ok) return response.json() as Promise<RecordingStatus>
+        const { error } = await response.json().catch(() => ({ error: null }))
+        throw new Error(error || `Recording request failed with status ${response.status}`)
+      })
+      .then((status) => {
+        onEvent({ type: "recording", status })
+        if (!status.recording) stopPolling()
+        return status
+      })
+      .catch((error) => {
+        stopPolling()
+        onEvent({ type: "error", message: `Server recorder: ${error.message}` })
+        return null
+      })
+
+  const controlRecording = (body: object) =>
+    reportRecording(
+      fetch("/api/recording", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    )
+
+  const closeAll = () => {
+    streams.forEach(({ source }) => source.close())
+    streams.clear()
+  }
+
+  const send = (command: FeedCommand) => {
+    switch (command.type) {
+      case "subscribe": {
+        const nextSymbol = command.symbol
+
+        streams.forEach(({ source }, venue) => {
+          if (!command.venues.includes(venue)) {
+            source.close()
+            streams.delete(venue)
+          }
+        })
+
+        command.venues.forEach((venue) => {
+          const url = streamUrl(
+            venue,
+            nextSymbol,
+            getBookChannel(venue, command.channels?.[venue]).id,
+            command.watchlist,
+            command.mockRegime,
+          )
+          const existing = streams.get(venue)
+          if (existing?.url === url) return
+
+          // The new stream joins the server's shared sockets before the old one leaves them,
+          // so symbols both follow are never unsubscribed upstream in between
+          open(venue, nextSymbol, url)
+          existing?.source.close()
+        })
+        break
+      }
+
+      case "unsubscribe":
+        closeAll()
+        break
+
+      case "retry": {
+        const stream = streams.get(command.venue)
+        if (!stream) return
+        fetch(stream.url, { method: "POST" })
+          .then(async (response) => {
+            if (response.ok) return
+            const { error } = await response.json().catch(() => ({ error: null }))
+            throw new Error(error || `status ${response.status}`)
+          })
+          .catch((error) => onEvent({ type: "error", message: `Failed to retry ${command.venue}: ${error.message}` }))
+        break
+      }
+
+      case "startRecording":
+        stopPolling()
+        controlRecording({ action: "start", limits: command.limits }).then((status) => {
+          if (status?.recording && !recordingPoll) {
+            recordingPoll = setInterval(() => reportRecording(fetch("/api/recording")), 1000)
+          }
+        })
+        break
+
+      case "stopRecording":
+        stopPolling()
+        controlRecording({ action: "stop" })
+        break
+    }
+  }
+
+  return {
+    send,
+    dispose: () => {
+      stopPolling()
+      closeAll()
+    },
+  }
+}
+
+/**
+ * Start the market data feed.
+ * In aggregated mode books stream from the server over SSE, and in replay mode they are rebuilt
+ * from a recorded capture on the main thread. In direct mode the feed runs off
+ * the main thread: a SharedWorker lets all tabs share one set of exchange connections, with
+ * fallbacks to per-tab sockets in a dedicated worker and finally to running the hub in-thread.
+ */
+export function createFeedClient(
+  onEvent: (event: FeedEvent) => void,
+  mode: FeedMode = "direct",
+  capture?: ReplayCapture | null,
+): FeedClient {
+  if (mode === "aggregated") {
+    return createServerStreamClient(onEvent)
+  }
+
+  if (mode === "replay") {
+    return createReplayFeedClient(capture ?? { fileName: "empty capture", messages: [] }, onEvent)
+  }
+
+  if (typeof SharedWorker !== "undefined") {
+    try {
+      return createSharedWorkerClient(onEvent)
+    } catch (error) {
+      console.warn("Failed to start shared orderbook feed, using a per-tab worker:", error)
+    }
+  }
+
+  if (typeof Worker !== "undefined") {
+    try {
+      return createDedicatedWorkerClient(onEvent)
+    } catch (error) {
+      console.warn("Failed to start orderbook feed worker, running feed on the main thread:", error)
+    }
+  }
+
+  const session = createFeedHub().connect(onEvent)
+  return { send: session.handle, dispose: session.dispose }
+}
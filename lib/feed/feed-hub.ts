@@ -0,0 +1,484 @@
+import type { Venue, Symbol, Orderbook, ConnectionStatus, DerivativesTicker, Trade } from "@/types/trading"
+import { getBookChannel } from "@/lib/venues"
+import { setMockMarketRegime } from "@/hooks/use-mock-data"
+import { createVenueConnection, type VenueConnection } from "./venue-connection"
+import { createTickerConnection, type TickerConnection } from "./ticker-connection"
+import type { ReconnectState } from "./reconnect"
+import type { LatencyStats } from "./latency-stats"
+import {
+  createFeedRecorder,
+  createMemoryRecordingSink,
+  recordingFileName,
+  type FeedRecorder,
+  type RecordedMessage,
+  type RecordingLimits,
+} from "./recorder"
+import { MAX_PENDING_TRADES, PUBLISH_INTERVAL_MS, type FeedCommand, type FeedEvent } from "./protocol"
+
+/** One consumer of the hub, e.g. a browser tab */
+export interface FeedSession {
+  handle: (command: FeedCommand) => void
+  dispose: () => void
+}
+
+export interface FeedHub {
+  /** Open a session whose events are delivered through `emit` */
+  connect: (emit: (event: FeedEvent) => void) => FeedSession
+  /** Number of open venue sockets, for diagnostics */
+  connectionCount: () => number
+  /** Skip the reconnection backoff of an open venue/channel socket; false when there is none */
+  retry: (venue: Venue, channel: string) => boolean
+  /** Observe every raw inbound frame on every connection; returns the unsubscribe function */
+  addRawListener: (listener: (message: RecordedMessage) => void) => () => void
+  /** Have every open socket resend the snapshots of its books, so a capture starting now can be replayed */
+  refreshSnapshots: () => void
+}
+
+interface Subscriber {
+  emit: (event: FeedEvent) => void
+  /** Selected symbol, the one whose trades and tickers are followed */
+  symbol: Symbol | null
+  /** Every symbol whose books are followed: the selected one first, then the watchlist */
+  symbols: Symbol[]
+  /** Subscribed venues and the resolved book channel for each */
+  channels: Partial<Record<Venue, string>>
+  pendingBooks: Partial<Record<Symbol, Partial<Record<Venue, Orderbook>>>>
+  pendingTrades: Trade[]
+  pendingTickers: Partial<Record<Venue, DerivativesTicker>>
+  flushTimeout: ReturnType<typeof setTimeout> | null
+  recorder: FeedRecorder | null
+}
+
+/** One symbol's book on a shared socket and the sessions following it */
+interface StreamEntry {
+  symbol: Symbol
+  subscribers: Set<Subscriber>
+  status: ConnectionStatus
+  latency: LatencyStats | null
+  lastBook: Orderbook | null
+  /** Latest trades, oldest first, so late joiners do not start with an empty tape */
+  recentTrades: Trade[]
+}
+
+/** A shared venue/channel socket and the symbols multiplexed over it */
+interface ConnectionEntry {
+  venue: Venue
+  channel: string
+  connection?: VenueConnection
+  streams: Map<Symbol, StreamEntry>
+  reconnect: ReconnectState | null
+}
+
+/** A shared perpetual ticker connection, independent of the book channel */
+interface TickerEntry {
+  connection: TickerConnection | null
+  subscribers: Set<Subscriber>
+  lastTicker: DerivativesTicker | null
+}
+
+const connectionKey = (venue: Venue, channel: string) => `${venue}:${channel}`
+
+const streamKey = (venue: Venue, channel: string, symbol: Symbol) => `${venue}:${channel}:${symbol}`
+
+/**
+ * Own venue connections on behalf of any number of sessions.
+ * There is one socket per venue and book channel, multiplexing every symbol any session follows;
+ * symbols are reference-counted and added or removed on the open socket. Books and trades are
+ * coalesced per session and flushed at most every PUBLISH_INTERVAL_MS, while status and error
+ * changes are emitted immediately.
+ */
+export function createFeedHub(): FeedHub {
+  const connections = new Map<string, ConnectionEntry>()
+  const tickers = new Map<string, TickerEntry>()
+  const rawListeners = new Set<(message: RecordedMessage) => void>()
+
+  const addRawListener = (listener: (message: RecordedMessage) => void) => {
+    rawListeners.add(listener)
+    return () => {
+      rawListeners.delete(listener)
+    }
+  }
+
+  const flush = (subscriber: Subscriber) => {
+    subscriber.flushTimeout = null
+    if (!subscriber.symbol) return
+
+    const pendingBooks = subscriber.pendingBooks
+    subscriber.pendingBooks = {}
+    ;(Object.entries(pendingBooks) as [Symbol, Partial<Record<Venue, Orderbook>>][]).forEach(([symbol, orderbooks]) => {
+      if (Object.keys(orderbooks).length > 0) subscriber.emit({ type: "books", symbol, orderbooks })
+    })
+
+    const trades = subscriber.pendingTrades
+    subscriber.pendingTrades = []
+    if (trades.length > 0) {
+      subscriber.emit({ type: "trades", symbol: subscriber.symbol, trades })
+    }
+
+    const pendingTickers = subscriber.pendingTickers
+    subscriber.pendingTickers = {}
+    if (Object.keys(pendingTickers).length > 0) {
+      subscriber.emit({ type: "tickers", symbol: subscriber.symbol, tickers: pendingTickers })
+    }
+  }
+
+  const scheduleFlush = (subscriber: Subscriber) => {
+    if (!subscriber.flushTimeout) {
+      subscriber.flushTimeout = setTimeout(() => flush(subscriber), PUBLISH_INTERVAL_MS)
+    }
+  }
+
+  const queueBook = (subscriber: Subscriber, venue: Venue, symbol: Symbol, orderbook: Orderbook) => {
+    subscriber.pendingBooks[symbol] = { ...subscriber.pendingBooks[symbol], [venue]: orderbook }
+    scheduleFlush(subscriber)
+  }
+
+  // The tape only follows the selected symbol
+  const queueTrades = (subscriber: Subscriber, symbol: Symbol, trades: Trade[]) => {
+    if (subscriber.symbol !== symbol) return
+    subscriber.pendingTrades = subscriber.pendingTrades.concat(trades).slice(-MAX_PENDING_TRADES)
+    scheduleFlush(subscriber)
+  }
+
+  const queueTicker = (subscriber: Subscriber, ticker: DerivativesTicker) => {
+    subscriber.pendingTickers[ticker.venue] = ticker
+    scheduleFlush(subscriber)
+  }
+
+  /**
+   * Bring a subscriber up to date with a stream it just joined, or whose symbol it just selected
+   */
+  const sendStreamState = (subscriber: Subscriber, entry: ConnectionEntry, stream: StreamEntry) => {
+    const { venue } = entry
+    const { symbol } = stream
+    subscriber.emit({ type: "status", venue, symbol, status: stream.status })
+    if (entry.reconnect) subscriber.emit({ type: "reconnect", venue, symbol, state: entry.reconnect })
+    if (stream.latency) subscriber.emit({ type: "latency", venue, symbol, stats: stream.latency })
+    if (stream.lastBook) queueBook(subscriber, venue, symbol, stream.lastBook)
+    if (stream.recentTrades.length > 0) queueTrades(subscriber, symbol, stream.recentTrades)
+  }
+
+  /**
+   * Tickers are shared per venue and symbol, whichever book channel each session picked
+   */
+  const addTickerSubscriber = (venue: Venue, symbol: Symbol, subscriber: Subscriber) => {
+    const key = `${venue}:${symbol}`
+    let entry = tickers.get(key)
+    if (!entry) {
+      const created: TickerEntry = { connection: null, subscribers: new Set(), lastTicker: null }
+      created.connection = createTickerConnection(venue, symbol, {
+        onTicker: (ticker) => {
+          created.lastTicker = ticker
+          created.subscribers.forEach((each) => queueTicker(each, ticker))
+        },
+        onDiagnostics: (diagnostics) => {
+          created.subscribers.forEach((each) => each.emit({ type: "diagnostics", diagnostics }))
+        },
+      })
+      tickers.set(key, created)
+      entry = created
+    }
+
+    entry.subscribers.add(subscriber)
+    if (entry.lastTicker) queueTicker(subscriber, entry.lastTicker)
+  }
+
+  const removeTickerSubscriber = (venue: Venue, symbol: Symbol, subscriber: Subscriber) => {
+    const key = `${venue}:${symbol}`
+    const entry = tickers.get(key)
+    if (!entry) return
+
+    entry.subscribers.delete(subscriber)
+    if (entry.subscribers.size === 0) {
+      tickers.delete(key)
+      entry.connection?.close()
+    }
+  }
+
+  const openConnection = (venue: Venue, channel: string): ConnectionEntry => {
+    // Registered before connecting so the initial status events already reach subscribers
+    const entry: ConnectionEntry = { venue, channel, streams: new Map(), reconnect: null }
+    connections.set(connectionKey(venue, channel), entry)
+
+    const forEachSubscriber = (symbol: Symbol, fn: (subscriber: Subscriber) => void) =>
+      entry.streams.get(symbol)?.subscribers.forEach(fn)
+
+    // A session following several symbols on this socket hears about socket-wide events once
+    const socketSubscribers = () => {
+      const subscribers = new Set<Subscriber>()
+      entry.streams.forEach((stream) => stream.subscribers.forEach((subscriber) => subscribers.add(subscriber)))
+      return subscribers
+    }
+
+    entry.connection = createVenueConnection(venue, channel, {
+      onBook: (symbol, orderbook) => {
+        const stream = entry.streams.get(symbol)
+        if (stream) stream.lastBook = orderbook
+        forEachSubscriber(symbol, (subscriber) => queueBook(subscriber, venue, symbol, orderbook))
+      },
+      onTrades: (trades) => {
+        const symbol = trades[0].symbol
+        const stream = entry.streams.get(symbol)
+        if (stream) stream.recentTrades = stream.recentTrades.concat(trades).slice(-MAX_PENDING_TRADES)
+        forEachSubscriber(symbol, (subscriber) => queueTrades(subscriber, symbol, trades))
+      },
+      onStatus: (symbol, status) => {
+        const stream = entry.streams.get(symbol)
+        if (stream) stream.status = status
+        forEachSubscriber(symbol, (subscriber) => subscriber.emit({ type: "status", venue, symbol, status }))
+      },
+      onReconnectState: (state) => {
+        entry.reconnect = state
+        entry.streams.forEach(({ symbol, subscribers }) =>
+          subscribers.forEach((subscriber) => subscriber.emit({ type: "reconnect", venue, symbol, state })),
+        )
+      },
+      onLatencyStats: (symbol, stats) => {
+        const stream = entry.streams.get(symbol)
+        if (stream) stream.latency = stats
+        forEachSubscriber(symbol, (subscriber) => subscriber.emit({ type: "latency", venue, symbol, stats }))
+      },
+      onRawMessage: (symbol, raw, receivedAt) => {
+        if (rawListeners.size === 0) return
+        const message: RecordedMessage = { receivedAt, venue, symbol, channel, raw }
+        rawListeners.forEach((listener) => listener(message))
+      },
+      onError: (message) => {
+        socketSubscribers().forEach((subscriber) => subscriber.emit({ type: "error", message }))
+      },
+      onDiagnostics: (diagnostics) => {
+        socketSubscribers().forEach((subscriber) => subscriber.emit({ type: "diagnostics", diagnostics }))
+      },
+      onChecksumMismatch: (symbol) => {
+        forEachSubscriber(symbol, (subscriber) => subscriber.emit({ type: "checksumMismatch", venue, symbol }))
+      },
+    })
+
+    return entry
+  }
+
+  const addSubscriber = (venue: Venue, symbol: Symbol, channel: string, subscriber: Subscriber) => {
+    const entry = connections.get(connectionKey(venue, channel)) || openConnection(venue, channel)
+    const existing = entry.streams.get(symbol)
+    const stream = existing || {
+      symbol,
+      subscribers: new Set<Subscriber>(),
+      status: "disconnected",
+      latency: null,
+      lastBook: null,
+      recentTrades: [],
+    }
+    stream.subscribers.add(subscriber)
+
+    if (existing) {
+      // Late joiners start from the shared stream's current state
+      sendStreamState(subscriber, entry, stream)
+    } else {
+      // Registered before adding so the initial status already reaches the subscriber
+      entry.streams.set(symbol, stream)
+      entry.connection?.addSymbol(symbol)
+    }
+  }
+
+  const removeSubscriber = (venue: Venue, symbol: Symbol, channel: string, subscriber: Subscriber) => {
+    const key = connectionKey(venue, channel)
+    const entry = connections.get(key)
+    const stream = entry?.streams.get(symbol)
+    if (!entry || !stream) return
+
+    stream.subscribers.delete(subscriber)
+    if (stream.subscribers.size > 0) return
+
+    entry.streams.delete(symbol)
+    if (entry.streams.size === 0) {
+      connections.delete(key)
+      entry.connection?.close()
+    } else {
+      entry.connection?.removeSymbol(symbol)
+    }
+  }
+
+  const connect = (emit: (event: FeedEvent) => void): FeedSession => {
+    const subscriber: Subscriber = {
+      emit,
+      symbol: null,
+      symbols: [],
+      channels: {},
+      pendingBooks: {},
+      pendingTrades: [],
+      pendingTickers: {},
+      flushTimeout: null,
+      recorder: null,
+    }
+
+    /** Every venue/channel/symbol combination a subscription follows */
+    const streamsOf = (symbols: Symbol[], channels: Partial<Record<Venue, string>>) =>
+      (Object.entries(channels) as [Venue, string][]).flatMap(([venue, channel]) =>
+        symbols.map((symbol) => ({ venue, channel, symbol })),
+      )
+
+    const unsubscribeAll = () => {
+      streamsOf(subscriber.symbols, subscriber.channels).forEach(({ venue, channel, symbol }) =>
+        removeSubscriber(venue, symbol, channel, subscriber),
+      )
+      if (subscriber.symbol) {
+        const symbol = subscriber.symbol
+        Object.keys(subscriber.channels).forEach((venue) => removeTickerSubscriber(venue as Venue, symbol, subscriber))
+      }
+      subscriber.symbol = null
+      subscriber.symbols = []
+      subscriber.channels = {}
+      subscriber.pendingBooks = {}
+      subscriber.pendingTrades = []
+      subscriber.pendingTickers = {}
+    }
+
+    /**
+     * Capture the frames of this session's connections in memory and hand them over as a blob when done.
+     * The session's books are resubscribed once the recorder listens, so the capture opens with their snapshots.
+     */
+    const startRecording = (limits: RecordingLimits) => {
+      subscriber.recorder?.stop()
+
+      const sink = createMemoryRecordingSink()
+      let removeListener = () => {}
+
+      const recorder = createFeedRecorder(sink, limits, (status) => {
+        emit({ type: "recording", status })
+        if (status.recording) return
+
+        removeListener()
+        if (subscriber.recorder === recorder) subscriber.recorder = null
+        emit({
+          type: "recordingComplete",
+          fileName: recordingFileName(status.startedAt ?? Date.now()),
+          blob: sink.toBlob(),
+        })
+      })
+
+      // Watchlist symbols are recorded too, so they can be selected during replay
+      removeListener = addRawListener((message) => {
+        if (
+          (message.symbol === null || subscriber.symbols.includes(message.symbol)) &&
+          subscriber.channels[message.venue] === message.channel
+        ) {
+          recorder.record(message)
+        }
+      })
+      subscriber.recorder = recorder
+
+      ;(Object.entries(subscriber.channels) as [Venue, string][]).forEach(([venue, channel]) =>
+        connections.get(connectionKey(venue, channel))?.connection?.refreshSnapshots(subscriber.symbols),
+      )
+    }
+
+    /**
+     * Move the session to a new set of streams: new ones are joined before old ones are left,
+     * so shared sockets keep running and symbols on them are never unsubscribed in between
+     */
+    const subscribe = (command: Extract<FeedCommand, { type: "subscribe" }>) => {
+      const previousSymbol = subscriber.symbol
+      const previousStreams = streamsOf(subscriber.symbols, subscriber.channels)
+      const nextChannels: Partial<Record<Venue, string>> = {}
+      command.venues.forEach((venue) => {
+        nextChannels[venue] = getBookChannel(venue, command.channels?.[venue]).id
+      })
+      const nextSymbols = [...new Set([command.symbol, ...(command.watchlist ?? [])])]
+      const nextStreams = streamsOf(nextSymbols, nextChannels)
+
+      const previousKeys = new Set(
+        previousStreams.map(({ venue, channel, symbol }) => streamKey(venue, channel, symbol)),
+      )
+      const nextKeys = new Set(nextStreams.map(({ venue, channel, symbol }) => streamKey(venue, channel, symbol)))
+
+      subscriber.symbol = command.symbol
+      subscriber.symbols = nextSymbols
+      subscriber.channels = nextChannels
+      if (previousSymbol !== command.symbol) {
+        subscriber.pendingTrades = []
+        subscriber.pendingTickers = {}
+      }
+      ;(Object.keys(subscriber.pendingBooks) as Symbol[]).forEach((symbol) => {
+        if (!nextSymbols.includes(symbol)) delete subscriber.pendingBooks[symbol]
+      })
+
+      nextStreams.forEach(({ venue, channel, symbol }) => {
+        if (!previousKeys.has(streamKey(venue, channel, symbol))) {
+          addSubscriber(venue, symbol, channel, subscriber)
+        } else if (symbol === command.symbol && previousSymbol !== command.symbol) {
+          // A watched symbol became the selected one, whose status and tape the session had been ignoring
+          const entry = connections.get(connectionKey(venue, channel))
+          const stream = entry?.streams.get(symbol)
+          if (entry && stream) sendStreamState(subscriber, entry, stream)
+        }
+      })
+
+      previousStreams.forEach(({ venue, channel, symbol }) => {
+        if (!nextKeys.has(streamKey(venue, channel, symbol))) removeSubscriber(venue, symbol, channel, subscriber)
+      })
+
+      // Tickers only follow the selected symbol
+      command.venues.forEach((venue) => {
+        if (previousSymbol !== command.symbol || !previousStreams.some((stream) => stream.venue === venue)) {
+          addTickerSubscriber(venue, command.symbol, subscriber)
+        }
+      })
+      if (previousSymbol) {
+        new Set(previousStreams.map((stream) => stream.venue)).forEach((venue) => {
+          if (previousSymbol !== command.symbol || !nextChannels[venue]) {
+            removeTickerSubscriber(venue, previousSymbol, subscriber)
+          }
+        })
+      }
+    }
+
+    const handle = (command: FeedCommand) => {
+      switch (command.type) {
+        case "subscribe":
+          if (command.mockRegime) setMockMarketRegime(command.mockRegime)
+          subscribe(command)
+          break
+
+        case "unsubscribe":
+          unsubscribeAll()
+          break
+
+        case "retry": {
+          // Only connections this session is subscribed to can be retried from it
+          const channel = subscriber.channels[command.venue]
+          if (channel) connections.get(connectionKey(command.venue, channel))?.connection?.retryNow()
+          break
+        }
+
+        case "startRecording":
+          startRecording(command.limits)
+          break
+
+        case "stopRecording":
+          subscriber.recorder?.stop()
+          break
+      }
+    }
+
+    const dispose = () => {
+      subscriber.recorder?.stop()
+      unsubscribeAll()
+      if (subscriber.flushTimeout) clearTimeout(subscriber.flushTimeout)
+      subscriber.flushTimeout = null
+    }
+
+    return { handle, dispose }
+  }
+
+  const retry = (venue: Venue, channel: string) => {
+    const connection = connections.get(connectionKey(venue, channel))?.connection
+    connection?.retryNow()
+    return Boolean(connection)
+  }
+
+  const refreshSnapshots = () => {
+    connections.forEach((entry) => entry.connection?.refreshSnapshots())
+  }
+
+  return { connect, connectionCount: () => connections.size, retry, addRawListener, refreshSnapshots }
+}
@@ -0,0 +1,52 @@
+import fs from "node:fs"
+import path from "node:path"
+import type { RecordingSink } from "./recorder"
+
+export interface RotatingFileSinkOptions {
+  /** Directory the capture files are written to, created if missing */
+  directory: string
+  /** Start a new file once the current one reaches this many bytes */
+  rotateBytes: number
+  /** Capture start time, used in the file names */
+  startedAt: number
+}
+
+/** Default size of a single capture file before rotating */
+export const DEFAULT_ROTATE_BYTES = 10 * 1024 * 1024
+
+/**
+ * Server-side sink writing NDJSON to numbered files, starting a new one every `rotateBytes`.
+ * Throws when the directory cannot be created or written to.
+ */
+export function createRotatingFileSink({ directory, rotateBytes, startedAt }: RotatingFileSinkOptions): RecordingSink {
+  const prefix = `orderbook-capture-${new Date(startedAt).toISOString().replace(/[:.]/g, "-")}`
+  let fileCount = 0
+  let stream: fs.WriteStream | null = null
+  let fileBytes = 0
+
+  // Fails here rather than on the first write, so the caller can report it
+  fs.mkdirSync(directory, { recursive: true })
+  fs.accessSync(directory, fs.constants.W_OK)
+
+  const openNext = () => {
+    stream?.end()
+    const file = path.join(directory, `${prefix}-${String(++fileCount).padStart(3, "0")}.ndjson`)
+    stream = fs.createWriteStream(file, { flags: "a" })
+    stream.on("error", (error) => console.error(`Failed to write capture file ${file}:`, error))
+    fileBytes = 0
+  }
+
+  return {
+    write: (line) => {
+      const size = Buffer.byteLength(line)
+      if (!stream || (fileBytes > 0 && fileBytes + size > rotateBytes)) openNext()
+      stream?.write(line)
+      fileBytes += size
+    },
+    close: () => {
+      stream?.end()
+      stream = null
+    },
+    id: prefix,
+  }
+}
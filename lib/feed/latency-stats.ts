@@ -0,0 +1,108 @@
+/** Number of most recent updates kept per connection for the statistics */
+export const LATENCY_WINDOW_SIZE = 500
+
+/** How often a connection reports fresh statistics */
+export const LATENCY_REPORT_INTERVAL_MS = 1000
+
+export interface Percentiles {
+  p50: number
+  p90: number
+  p99: number
+  max: number
+}
+
+/**
+ * Feed quality over the most recent updates of one connection.
+ * Latency is receive time minus the venue's timestamp, so it includes clock skew between
+ * the venue and this machine and can be negative.
+ */
+export interface LatencyStats {
+  /** Updates in the window */
+  samples: number
+  /** Receive time minus exchange time in ms, null when the venue sends no timestamps */
+  latency: Percentiles | null
+  /** Receive time minus matching engine time in ms (Bybit only) */
+  matchLatency: Percentiles | null
+  /** Time between consecutive updates in ms */
+  interval: Percentiles | null
+  /** Updates per second over the window */
+  updatesPerSecond: number
+}
+
+export interface LatencyTracker {
+  /** Record one book update as it arrives */
+  record: (receivedAt: number, exchangeTimestamp?: number, matchTimestamp?: number) => void
+  /** Compute statistics over the current window */
+  snapshot: () => LatencyStats
+  /** Number of updates recorded since creation, to detect changes cheaply */
+  count: () => number
+  reset: () => void
+}
+
+/**
+ * Nearest-rank percentiles of a list of values
+ */
+export const computePercentiles = (values: number[]): Percentiles | null => {
+  if (values.length === 0) return null
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+  return { p50: rank(0.5), p90: rank(0.9), p99: rank(0.99), max: sorted[sorted.length - 1] }
+}
+
+/**
+ * Track exchange-to-receive latency and update spacing over a sliding window.
+ * Samples live in fixed-size ring buffers so recording stays allocation-free on the hot path.
+ */
+export function createLatencyTracker(windowSize = LATENCY_WINDOW_SIZE): LatencyTracker {
+  const received = new Float64Array(windowSize)
+  const latencies = new Float64Array(windowSize)
+  const matchLatencies = new Float64Array(windowSize)
+  let head = 0
+  let total = 0
+
+  const record = (receivedAt: number, exchangeTimestamp?: number, matchTimestamp?: number) => {
+    received[head] = receivedAt
+    latencies[head] = exchangeTimestamp ? receivedAt - exchangeTimestamp : NaN
+    matchLatencies[head] = matchTimestamp ? receivedAt - matchTimestamp : NaN
+    head = (head + 1) % windowSize
+    total++
+  }
+
+  const snapshot = (): LatencyStats => {
+    const samples = Math.min(total, windowSize)
+    const start = (head - samples + windowSize) % windowSize
+
+    const ordered: number[] = []
+    const latencyValues: number[] = []
+    const matchValues: number[] = []
+    for (let i = 0; i < samples; i++) {
+      const index = (start + i) % windowSize
+      ordered.push(received[index])
+      if (!isNaN(latencies[index])) latencyValues.push(latencies[index])
+      if (!isNaN(matchLatencies[index])) matchValues.push(matchLatencies[index])
+    }
+
+    const intervals: number[] = []
+    for (let i = 1; i < ordered.length; i++) {
+      intervals.push(ordered[i] - ordered[i - 1])
+    }
+
+    const span = ordered.length > 1 ? ordered[ordered.length - 1] - ordered[0] : 0
+
+    return {
+      samples,
+      latency: computePercentiles(latencyValues),
+      matchLatency: computePercentiles(matchValues),
+      interval: computePercentiles(intervals),
+      updatesPerSecond: span > 0 ? ((ordered.length - 1) / span) * 1000 : 0,
+    }
+  }
+
+  const reset = () => {
+    head = 0
+    total = 0
+  }
+
+  return { record, snapshot, count: () => total, reset }
+}
@@ -0,0 +1,126 @@
+import type { Orderbook, Symbol, Venue } from "@/types/trading"
+
+/**
+ * NEXT_PUBLIC_BOOK_BATCHING=sync applies books as they arrive instead of once per animation frame,
+ * to measure frame times against the batched default
+ */
+const SYNC_BATCHING = process.env.NEXT_PUBLIC_BOOK_BATCHING === "sync"
+
+type Listener = () => void
+
+export interface OrderbookStore {
+  /** Latest applied book of a venue and symbol; the same object until that book changes */
+  getBook: (venue: Venue, symbol: Symbol) => Orderbook | null
+  /** Increases whenever any book changes */
+  getVersion: () => number
+  /** Be notified when the book of one venue and symbol changes */
+  subscribe: (venue: Venue, symbol: Symbol, listener: Listener) => () => void
+  /** Be notified when any book changes */
+  subscribeAll: (listener: Listener) => () => void
+  /** Queue books for the next frame; a queued book is replaced by a newer one for the same venue and symbol */
+  queueBooks: (symbol: Symbol, orderbooks: Partial<Record<Venue, Orderbook>>) => void
+  /** Drop the books of every symbol not listed */
+  retain: (symbols: Symbol[]) => void
+  /** Drop every book, e.g. when the feed is replaced */
+  clear: () => void
+  /** Cancel the scheduled frame; books queued for it are dropped */
+  dispose: () => void
+}
+
+const bookKey = (venue: Venue, symbol: Symbol) => `${venue}:${symbol}`
+
+/**
+ * Books of every venue and followed symbol, kept outside React so each component subscribes to just the
+ * venue and symbol it shows. Incoming books are coalesced and applied once per animation frame, which
+ * browsers skip for hidden documents: a background tab keeps only the latest book per venue and symbol
+ * and renders nothing until it is shown again.
+ */
+export function createOrderbookStore(): OrderbookStore {
+  const books = new Map<string, Orderbook>()
+  const pending = new Map<string, Orderbook>()
+  const listeners = new Map<string, Set<Listener>>()
+  const allListeners = new Set<Listener>()
+  let version = 0
+  let frame: number | null = null
+
+  const notify = (keys: Iterable<string>) => {
+    version++
+    for (const key of keys) listeners.get(key)?.forEach((listener) => listener())
+    allListeners.forEach((listener) => listener())
+  }
+
+  const flush = () => {
+    frame = null
+    if (pending.size === 0) return
+
+    const changed = [...pending.keys()]
+    pending.forEach((orderbook, key) => books.set(key, orderbook))
+    pending.clear()
+    notify(changed)
+  }
+
+  const drop = (keep: (key: string) => boolean) => {
+    const dropped = [...books.keys()].filter((key) => !keep(key))
+    ;[...pending.keys()].forEach((key) => {
+      if (!keep(key)) pending.delete(key)
+    })
+    if (dropped.length === 0) return
+
+    dropped.forEach((key) => books.delete(key))
+    notify(dropped)
+  }
+
+  return {
+    getBook: (venue, symbol) => books.get(bookKey(venue, symbol)) ?? null,
+
+    getVersion: () => version,
+
+    subscribe: (venue, symbol, listener) => {
+      const key = bookKey(venue, symbol)
+      let keyListeners = listeners.get(key)
+      if (!keyListeners) {
+        keyListeners = new Set()
+        listeners.set(key, keyListeners)
+      }
+      keyListeners.add(listener)
+
+      return () => {
+        keyListeners.delete(listener)
+        if (keyListeners.size === 0) listeners.delete(key)
+      }
+    },
+
+    subscribeAll: (listener) => {
+      allListeners.add(listener)
+      return () => {
+        allListeners.delete(listener)
+      }
+    },
+
+    queueBooks: (symbol, orderbooks) => {
+      ;(Object.entries(orderbooks) as [Venue, Orderbook][]).forEach(([venue, orderbook]) => {
+        pending.set(bookKey(venue, symbol), orderbook)
+      })
+
+      if (SYNC_BATCHING || typeof requestAnimationFrame === "undefined") {
+        flush()
+      } else if (frame === null) {
+        frame = requestAnimationFrame(flush)
+      }
+    },
+
+    retain: (symbols) => {
+      drop((key) => symbols.some((symbol) => key.endsWith(`:${symbol}`)))
+    },
+
+    clear: () => {
+      drop(() => false)
+    },
+
+    dispose: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+      pending.clear()
+    },
+  }
+}
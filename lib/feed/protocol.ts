@@ -0,0 +1,90 @@
+import type { Venue, Symbol, Orderbook, ConnectionStatus, DerivativesTicker, Trade } from "@/types/trading"
+import type { ReconnectState } from "./reconnect"
+import type { LatencyStats } from "./latency-stats"
+import type { RecordingLimits, RecordingStatus } from "./recorder"
+import type { ReplayState } from "./replay"
+import type { ConnectionDiagnostics } from "./diagnostics"
+import type { MarketRegime } from "@/lib/synthetic-market"
+
+/**
+ * How often accumulated book changes are posted back to the UI. NEXT_PUBLIC_PUBLISH_INTERVAL_MS lowers it
+ * to load the UI with a high-rate feed, e.g. 5 against the mock exchange at `--interval 5`.
+ */
+export const PUBLISH_INTERVAL_MS = Number(process.env.NEXT_PUBLIC_PUBLISH_INTERVAL_MS) || 100
+
+/** Most trades held per venue for late joiners and per flush, so bursts cannot grow without bound */
+export const MAX_PENDING_TRADES = 200
+
+/** How often the streaming API sends an SSE comment so proxies keep the response open */
+export const SSE_KEEPALIVE_INTERVAL_MS = 15000
+
+/**
+ * Where venue connections live: "direct" opens exchange sockets from the browser,
+ * "aggregated" streams books from the server over SSE, "replay" plays back a recorded capture
+ */
+export type FeedMode = "direct" | "aggregated" | "replay"
+
+/** How often a tab tells the shared worker it is still alive */
+export const KEEPALIVE_INTERVAL_MS = 5000
+
+/**
+ * Sessions silent for longer than this are dropped by the shared worker.
+ * Generous because browsers throttle timers in background tabs to as little as once a minute.
+ */
+export const SESSION_TIMEOUT_MS = 90000
+
+/**
+ * Commands sent from the UI to the feed.
+ * `channels` picks a book channel per venue; venues without an entry use their default.
+ * `watchlist` keeps the books of further symbols live on the same sockets, alongside the selected `symbol`.
+ * `mockRegime` sets the market conditions of mock books, for every session of the feed.
+ */
+export type FeedCommand =
+  | {
+      type: "subscribe"
+      venues: Venue[]
+      symbol: Symbol
+      channels?: Partial<Record<Venue, string>>
+      watchlist?: Symbol[]
+      mockRegime?: MarketRegime
+    }
+  | { type: "unsubscribe" }
+  | { type: "retry"; venue: Venue }
+  | { type: "startRecording"; limits: RecordingLimits }
+  | { type: "stopRecording" }
+  | { type: "replayPlay" }
+  | { type: "replayPause" }
+  /** Jump to a capture time in epoch ms */
+  | { type: "replaySeek"; position: number }
+  | { type: "replaySpeed"; speed: number }
+
+/** Port lifecycle messages a tab sends to the shared worker in addition to feed commands */
+export type SharedFeedMessage = FeedCommand | { type: "keepalive" } | { type: "disconnect" }
+
+/**
+ * Messages the shared worker posts to a tab: feed events, or `resync` when a keepalive arrives for a
+ * session it already swept, asking the tab to send its subscription again
+ */
+export type SharedFeedReply = FeedEvent | { type: "resync" }
+
+/**
+ * Events posted from the feed to the UI.
+ * Everything is plain data so it survives structured cloning across the worker boundary.
+ */
+export type FeedEvent =
+  | { type: "books"; symbol: Symbol; orderbooks: Partial<Record<Venue, Orderbook>> }
+  /** Trades received since the last flush, oldest first, across venues. `reset` replaces the tape, e.g. after a seek */
+  | { type: "trades"; symbol: Symbol; trades: Trade[]; reset?: boolean }
+  /** Perpetual swap tickers that changed since the last flush */
+  | { type: "tickers"; symbol: Symbol; tickers: Partial<Record<Venue, DerivativesTicker>> }
+  | { type: "status"; venue: Venue; symbol: Symbol; status: ConnectionStatus }
+  | { type: "reconnect"; venue: Venue; symbol: Symbol; state: ReconnectState }
+  | { type: "latency"; venue: Venue; symbol: Symbol; stats: LatencyStats }
+  | { type: "checksumMismatch"; venue: Venue; symbol: Symbol }
+  | { type: "error"; message: string | null }
+  /** Health of one book or ticker socket, reported every second while it exists */
+  | { type: "diagnostics"; diagnostics: ConnectionDiagnostics }
+  | { type: "recording"; status: RecordingStatus }
+  /** A finished browser-side capture, ready to download */
+  | { type: "recordingComplete"; fileName: string; blob: Blob }
+  | { type: "replayState"; state: ReplayState }
@@ -0,0 +1,163 @@
+import "../../scripts/mock-exchange/test-env"
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { ConnectionStatus } from "@/types/trading"
+import {
+  DEFAULT_RECONNECT_POLICY,
+  computeBackoffDelay,
+  createReconnectState,
+  transitionReconnect,
+  type ReconnectEvent,
+  type ReconnectPolicy,
+  type ReconnectState,
+} from "./reconnect"
+import { createVenueConnection } from "./venue-connection"
+
+const NOW = 1_000_000
+
+/** Jitter draws at the ends of its range: 0 keeps the full delay, 1 takes off the whole jitter fraction */
+const NO_JITTER = () => 0
+const MAX_JITTER = () => 1
+
+const state = (phase: ReconnectState["phase"], attempt: number, nextRetryAt: number | null = null): ReconnectState => ({
+  phase,
+  attempt,
+  maxAttempts: DEFAULT_RECONNECT_POLICY.maxAttempts,
+  nextRetryAt,
+})
+
+test("backoff doubles per attempt up to the cap", () => {
+  const cases: [attempt: number, delay: number][] = [
+    [1, 1000],
+    [2, 2000],
+    [3, 4000],
+    [4, 8000],
+    [5, 16000],
+    [6, 30000],
+    [8, 30000],
+  ]
+  cases.forEach(([attempt, delay]) =>
+    assert.equal(computeBackoffDelay(attempt, DEFAULT_RECONNECT_POLICY, NO_JITTER), delay, `attempt ${attempt}`),
+  )
+})
+
+test("jitter takes at most its fraction off each delay", () => {
+  const cases: [policy: ReconnectPolicy, attempt: number, min: number, max: number][] = [
+    [DEFAULT_RECONNECT_POLICY, 1, 500, 1000],
+    [DEFAULT_RECONNECT_POLICY, 6, 15000, 30000],
+    [{ ...DEFAULT_RECONNECT_POLICY, jitter: 0 }, 3, 4000, 4000],
+    [{ ...DEFAULT_RECONNECT_POLICY, jitter: 1 }, 3, 0, 4000],
+  ]
+  cases.forEach(([policy, attempt, min, max]) => {
+    assert.equal(computeBackoffDelay(attempt, policy, NO_JITTER), max)
+    assert.equal(computeBackoffDelay(attempt, policy, MAX_JITTER), min)
+    for (let i = 0; i < 100; i++) {
+      const delay = computeBackoffDelay(attempt, policy)
+      assert.ok(delay >= min && delay <= max, `${delay} outside ${min}..${max}`)
+    }
+  })
+})
+
+test("transitions", () => {
+  const cases: [name: string, from: ReconnectState, event: ReconnectEvent, to: ReconnectState][] = [
+    ["first connect", createReconnectState(), { type: "connect" }, state("connecting", 1)],
+    ["socket opens", state("connecting", 1), { type: "open" }, state("open", 1)],
+    ["first failure backs off", state("connecting", 1), { type: "fail" }, state("backoff", 1, NOW + 1000)],
+    ["retry is due", state("backoff", 1, NOW + 1000), { type: "retryDue" }, state("connecting", 2)],
+    ["later failures back off longer", state("connecting", 3), { type: "fail" }, state("backoff", 3, NOW + 4000)],
+    ["drop before data flowed", state("open", 3), { type: "fail" }, state("backoff", 3, NOW + 4000)],
+    ["stable connection resets the budget", state("open", 3), { type: "healthy" }, state("open", 0)],
+    ["drop after a stable connection starts over", state("open", 0), { type: "fail" }, state("backoff", 1, NOW + 1000)],
+    ["last attempt fails", state("connecting", 8), { type: "fail" }, state("exhausted", 8)],
+    ["manual retry from backoff", state("backoff", 5, NOW + 16000), { type: "connect" }, state("connecting", 1)],
+    ["manual retry after giving up", state("exhausted", 8), { type: "connect" }, state("connecting", 1)],
+    ["stop", state("backoff", 2, NOW + 2000), { type: "stop" }, state("closed", 2)],
+  ]
+  cases.forEach(([name, from, event, to]) =>
+    assert.deepEqual(transitionReconnect(from, event, DEFAULT_RECONNECT_POLICY, NOW, NO_JITTER), to, name),
+  )
+})
+
+test("events that do not apply leave the state unchanged", () => {
+  const cases: [from: ReconnectState, event: ReconnectEvent][] = [
+    [state("connecting", 1), { type: "connect" }],
+    [state("open", 1), { type: "retryDue" }],
+    [state("exhausted", 8), { type: "retryDue" }],
+    [state("exhausted", 8), { type: "fail" }],
+    [state("backoff", 1, NOW + 1000), { type: "healthy" }],
+    [state("open", 0), { type: "healthy" }],
+    [state("closed", 1), { type: "connect" }],
+  ]
+  cases.forEach(([from, event]) =>
+    assert.equal(transitionReconnect(from, event, DEFAULT_RECONNECT_POLICY, NOW, NO_JITTER), from),
+  )
+})
+
+test("an outage spends the budget with growing delays, then gives up", () => {
+  const delays: number[] = []
+  let current = transitionReconnect(createReconnectState(), { type: "connect" })
+
+  while (current.phase !== "exhausted") {
+    current = transitionReconnect(current, { type: "fail" }, DEFAULT_RECONNECT_POLICY, NOW, NO_JITTER)
+    if (current.phase === "backoff") {
+      delays.push(current.nextRetryAt! - NOW)
+      current = transitionReconnect(current, { type: "retryDue" })
+    }
+  }
+
+  assert.deepEqual(delays, [1000, 2000, 4000, 8000, 16000, 30000, 30000])
+  assert.equal(current.attempt, DEFAULT_RECONNECT_POLICY.maxAttempts)
+})
+
+test("a venue connection serves mock books once the budget is spent", async () => {
+  const policy: ReconnectPolicy = { baseDelayMs: 5, maxDelayMs: 5, multiplier: 1, jitter: 0, maxAttempts: 3 }
+  const statuses: ConnectionStatus[] = []
+  const states: ReconnectState[] = []
+  let books = 0
+
+  // Every connection attempt fails
+  const { WebSocket } = globalThis
+  globalThis.WebSocket = class {
+    constructor() {
+      throw new Error("Connection refused")
+    }
+  } as unknown as typeof WebSocket
+
+  const connection = createVenueConnection(
+    "OKX",
+    undefined,
+    {
+      onBook: () => books++,
+      onStatus: (_, status) => statuses.push(status),
+      onError: () => {},
+      onChecksumMismatch: () => {},
+      onReconnectState: (next) => states.push(next),
+      onLatencyStats: () => {},
+      onDiagnostics: () => {},
+    },
+    policy,
+  )
+
+  try {
+    connection.addSymbol("BTC-USDT")
+    const deadline = Date.now() + 5000
+    while (!statuses.includes("mock")) {
+      if (Date.now() > deadline) throw new Error("Timed out")
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  } finally {
+    connection.close()
+    globalThis.WebSocket = WebSocket
+  }
+
+  assert.deepEqual(
+    states.filter((each) => each.phase !== "connecting").map((each) => [each.phase, each.attempt]),
+    [
+      ["backoff", 1],
+      ["backoff", 2],
+      ["exhausted", 3],
+      ["closed", 3],
+    ],
+  )
+  assert.ok(books > 0)
+})
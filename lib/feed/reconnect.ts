@@ -0,0 +1,122 @@
+/**
+ * Reconnection state machine for a single venue connection.
+ *
+ *   idle ──connect──▶ connecting ──open──▶ open ──healthy──▶ open (budget reset)
+ *                        ▲   │                │
+ *                 retryDue   fail            fail
+ *                        │   ▼                ▼
+ *                      backoff ◀──────────────┘   (or exhausted once the budget is spent)
+ *
+ * `connect` doubles as the manual "retry now" action from backoff or exhausted,
+ * and `stop` moves any state to closed.
+ */
+
+export interface ReconnectPolicy {
+  /** Delay before the first retry */
+  baseDelayMs: number
+  /** Upper bound for a single delay */
+  maxDelayMs: number
+  /** Growth factor per attempt */
+  multiplier: number
+  /** Fraction of each delay that is randomized (0 = none, 1 = full jitter) */
+  jitter: number
+  /** Connection attempts before giving up */
+  maxAttempts: number
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: 8,
+}
+
+export type ReconnectPhase = "idle" | "connecting" | "open" | "backoff" | "exhausted" | "closed"
+
+export interface ReconnectState {
+  phase: ReconnectPhase
+  /** Attempts made since the last healthy connection */
+  attempt: number
+  maxAttempts: number
+  /** Epoch ms of the scheduled retry while in backoff */
+  nextRetryAt: number | null
+}
+
+export type ReconnectEvent =
+  | { type: "connect" }
+  | { type: "open" }
+  | { type: "healthy" }
+  | { type: "fail" }
+  | { type: "retryDue" }
+  | { type: "stop" }
+
+export const createReconnectState = (policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY): ReconnectState => ({
+  phase: "idle",
+  attempt: 0,
+  maxAttempts: policy.maxAttempts,
+  nextRetryAt: null,
+})
+
+/**
+ * Exponential backoff delay for the given attempt (1-based) with the policy's jitter applied
+ */
+export const computeBackoffDelay = (attempt: number, policy: ReconnectPolicy, random = Math.random): number => {
+  const exponential = policy.baseDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1))
+  const capped = Math.min(policy.maxDelayMs, exponential)
+  return Math.round(capped * (1 - policy.jitter * random()))
+}
+
+/**
+ * Pure transition function. Events that make no sense in the current phase return the state unchanged.
+ */
+export const transitionReconnect = (
+  state: ReconnectState,
+  event: ReconnectEvent,
+  policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+  now = Date.now(),
+  random = Math.random,
+): ReconnectState => {
+  if (state.phase === "closed") return state
+
+  switch (event.type) {
+    case "connect":
+      // Initial connect, or a manual retry which also restores the attempt budget
+      if (state.phase === "idle" || state.phase === "backoff" || state.phase === "exhausted") {
+        return { ...state, phase: "connecting", attempt: 1, nextRetryAt: null }
+      }
+      return state
+
+    case "retryDue":
+      if (state.phase !== "backoff") return state
+      return { ...state, phase: "connecting", attempt: state.attempt + 1, nextRetryAt: null }
+
+    case "open":
+      if (state.phase !== "connecting") return state
+      return { ...state, phase: "open" }
+
+    case "healthy":
+      // Data is flowing, so the next outage starts with a fresh budget
+      if (state.phase !== "open" || state.attempt === 0) return state
+      return { ...state, attempt: 0 }
+
+    case "fail": {
+      if (state.phase !== "connecting" && state.phase !== "open") return state
+
+      // A drop after a healthy period counts as the first failure of a new outage
+      const attempt = Math.max(state.attempt, 1)
+      if (attempt >= policy.maxAttempts) {
+        return { ...state, phase: "exhausted", attempt, nextRetryAt: null }
+      }
+      return {
+        ...state,
+        phase: "backoff",
+        attempt,
+        nextRetryAt: now + computeBackoffDelay(attempt, policy, random),
+      }
+    }
+
+    case "stop":
+      return { ...state, phase: "closed", nextRetryAt: null }
+  }
+}
@@ -0,0 +1,174 @@
+import type { Venue, Symbol } from "@/types/trading"
+
+/** One inbound frame exactly as the venue sent it, as stored in an NDJSON capture */
+export interface RecordedMessage {
+  /** Epoch ms when the frame arrived */
+  receivedAt: number
+  venue: Venue
+  /** Symbol the frame was routed to, null for frames of the connection itself, e.g. acks, heartbeats and errors */
+  symbol: Symbol | null
+  /** Book channel the connection was subscribed to */
+  channel: string
+  /** Unmodified frame text */
+  raw: string
+}
+
+export interface RecordingLimits {
+  /** Stop once the capture reaches this many bytes */
+  maxBytes: number
+  /** Stop after recording for this long */
+  maxDurationMs: number
+}
+
+/** Longest recording; also keeps the duration timer within the range setTimeout accepts */
+export const MAX_RECORDING_DURATION_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_RECORDING_LIMITS: RecordingLimits = {
+  maxBytes: 50 * 1024 * 1024,
+  maxDurationMs: 30 * 60 * 1000,
+}
+
+export type RecordingStopReason = "manual" | "size" | "duration"
+
+export interface RecordingStatus {
+  recording: boolean
+  startedAt: number | null
+  /** Frames written so far */
+  messages: number
+  /** UTF-8 bytes written so far */
+  bytes: number
+  limits: RecordingLimits
+  /** Why the last recording ended, null while recording or before the first one */
+  stoppedReason: RecordingStopReason | null
+  /** Id of a server capture; its files under the recordings directory are named after it */
+  recordingId?: string
+}
+
+/** Destination for NDJSON lines */
+export interface RecordingSink {
+  write: (line: string) => void
+  close: () => void
+  /** Name shared by the files of sinks that write to disk */
+  id?: string
+}
+
+export interface FeedRecorder {
+  record: (message: RecordedMessage) => void
+  stop: (reason?: RecordingStopReason) => void
+  status: () => RecordingStatus
+}
+
+/** How often a running recorder reports its progress */
+const STATUS_INTERVAL_MS = 1000
+
+export const RECORDING_MIME_TYPE = "application/x-ndjson"
+
+export const toNdjsonLine = (message: RecordedMessage) => `${JSON.stringify(message)}\n`
+
+/**
+ * Byte length of a string once UTF-8 encoded, without allocating the encoded buffer
+ */
+export const utf8Length = (text: string): number => {
+  let bytes = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) bytes += 1
+    else if (code < 0x800) bytes += 2
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair, one 4-byte code point
+      bytes += 4
+      i++
+    } else bytes += 3
+  }
+  return bytes
+}
+
+/**
+ * Suggested file name for a capture started at the given time
+ */
+export const recordingFileName = (startedAt: number) =>
+  `orderbook-capture-${new Date(startedAt).toISOString().replace(/[:.]/g, "-")}.ndjson`
+
+/**
+ * Sink that keeps the capture in memory until it is turned into a downloadable blob
+ */
+export function createMemoryRecordingSink(): RecordingSink & { toBlob: () => Blob } {
+  let chunks: string[] = []
+
+  return {
+    write: (line) => {
+      chunks.push(line)
+    },
+    close: () => {},
+    toBlob: () => {
+      const blob = new Blob(chunks, { type: RECORDING_MIME_TYPE })
+      chunks = []
+      return blob
+    },
+  }
+}
+
+/**
+ * Write recorded frames to a sink until stopped or a size or duration limit is hit.
+ * `onStatus` is called on start, about once a second while recording, and once when it stops.
+ */
+export function createFeedRecorder(
+  sink: RecordingSink,
+  limits: RecordingLimits,
+  onStatus: (status: RecordingStatus) => void,
+): FeedRecorder {
+  const startedAt = Date.now()
+  let messages = 0
+  let bytes = 0
+  let stoppedReason: RecordingStopReason | null = null
+  let reportedMessages = -1
+
+  const status = (): RecordingStatus => ({
+    recording: stoppedReason === null,
+    startedAt,
+    messages,
+    bytes,
+    limits,
+    stoppedReason,
+    recordingId: sink.id,
+  })
+
+  const report = () => {
+    reportedMessages = messages
+    onStatus(status())
+  }
+
+  const stop = (reason: RecordingStopReason = "manual") => {
+    if (stoppedReason) return
+
+    stoppedReason = reason
+    clearInterval(statusInterval)
+    clearTimeout(durationTimeout)
+    sink.close()
+    report()
+  }
+
+  const record = (message: RecordedMessage) => {
+    if (stoppedReason) return
+
+    const line = toNdjsonLine(message)
+    const size = utf8Length(line)
+    if (bytes + size > limits.maxBytes) {
+      stop("size")
+      return
+    }
+
+    sink.write(line)
+    messages++
+    bytes += size
+  }
+
+  const statusInterval = setInterval(() => {
+    if (messages !== reportedMessages) report()
+  }, STATUS_INTERVAL_MS)
+  const durationTimeout = setTimeout(() => stop("duration"), Math.min(limits.maxDurationMs, MAX_RECORDING_DURATION_MS))
+
+  report()
+
+  return { record, stop, status }
+}
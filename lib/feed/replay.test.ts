@@ -0,0 +1,85 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { Orderbook } from "@/types/trading"
+import type { FeedEvent } from "./protocol"
+import type { RecordedMessage } from "./recorder"
+import { createReplayFeedClient } from "./replay"
+
+/** A Bybit orderbook.50 frame for BTCUSDT as recorded at `receivedAt` */
+const bybitFrame = (
+  receivedAt: number,
+  type: "snapshot" | "delta",
+  updateId: number,
+  bids: [string, string][],
+): RecordedMessage => ({
+  receivedAt,
+  venue: "Bybit",
+  symbol: "BTC-USDT",
+  channel: "50",
+  raw: JSON.stringify({
+    topic: "orderbook.50.BTCUSDT",
+    type,
+    ts: receivedAt,
+    data: { s: "BTCUSDT", b: bids, a: type === "snapshot" ? [["102", "1"]] : [], u: updateId },
+  }),
+})
+
+const replay = (messages: RecordedMessage[]) => {
+  const events: FeedEvent[] = []
+  const client = createReplayFeedClient({ fileName: "capture.ndjson", messages }, (event) => events.push(event))
+  client.send({ type: "subscribe", venues: ["Bybit"], symbol: "BTC-USDT", channels: {} })
+  return { client, events }
+}
+
+/** Bids of the last Bybit book the replay published */
+const lastBids = (events: FeedEvent[]) => {
+  const books = events.filter((event) => event.type === "books" && event.orderbooks.Bybit)
+  const last = books[books.length - 1] as Extract<FeedEvent, { type: "books" }> | undefined
+  return (last?.orderbooks.Bybit as Orderbook | undefined)?.bids
+}
+
+test("seeking rebuilds the book from the last snapshot before the target", () => {
+  const { client, events } = replay([
+    bybitFrame(1000, "snapshot", 1, [["100", "1"]]),
+    bybitFrame(1100, "delta", 2, [["100", "2"]]),
+    bybitFrame(1200, "snapshot", 10, [["101", "1"]]),
+    bybitFrame(1300, "delta", 11, [["100.5", "3"]]),
+  ])
+
+  client.send({ type: "replaySeek", position: 1150 })
+  assert.deepEqual(lastBids(events), [[100, 2]])
+
+  client.send({ type: "replaySeek", position: 1250 })
+  assert.deepEqual(lastBids(events), [[101, 1]])
+
+  client.send({ type: "replaySeek", position: 1300 })
+  assert.deepEqual(lastBids(events), [
+    [101, 1],
+    [100.5, 3],
+  ])
+
+  // Seeking back starts over from the earlier snapshot
+  client.send({ type: "replaySeek", position: 1100 })
+  assert.deepEqual(lastBids(events), [[100, 2]])
+
+  assert.ok(!events.some((event) => event.type === "error" && event.message !== null))
+  client.dispose()
+})
+
+test("a stream without a snapshot is reported instead of waiting forever", () => {
+  const { client, events } = replay([
+    bybitFrame(1000, "delta", 2, [["100", "2"]]),
+    bybitFrame(1100, "delta", 3, [["100", "3"]]),
+  ])
+
+  client.send({ type: "replaySeek", position: 1100 })
+
+  assert.ok(events.some((event) => event.type === "status" && event.venue === "Bybit" && event.status === "error"))
+  assert.ok(
+    events.some(
+      (event) => event.type === "error" && event.message === "capture.ndjson has no BTC-USDT snapshot for Bybit",
+    ),
+  )
+  assert.equal(lastBids(events), undefined)
+  client.dispose()
+})
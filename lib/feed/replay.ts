@@ -0,0 +1,366 @@
+import type { Venue, Symbol, Orderbook, Trade } from "@/types/trading"
+import { VENUES, getBookChannel, getVenueAdapter } from "@/lib/venues"
+import { isSymbol } from "@/lib/symbols"
+import { getInstrument } from "@/lib/instruments"
+import { createBookProcessor, type BookProcessor } from "./book-processor"
+import { createLatencyTracker, type LatencyTracker } from "./latency-stats"
+import type { RecordedMessage } from "./recorder"
+import { MAX_PENDING_TRADES, PUBLISH_INTERVAL_MS, type FeedCommand, type FeedEvent } from "./protocol"
+import type { FeedClient } from "./feed-client"
+
+/** Playback speeds offered by the timeline, as multiples of real time */
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 20]
+
+export const MIN_REPLAY_SPEED = REPLAY_SPEEDS[0]
+export const MAX_REPLAY_SPEED = REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1]
+
+export interface ReplayState {
+  playing: boolean
+  speed: number
+  /** Current capture time in epoch ms */
+  position: number
+  /** Capture time of the first and last frame of the replayed streams */
+  start: number
+  end: number
+}
+
+/** A loaded NDJSON capture */
+export interface ReplayCapture {
+  fileName: string
+  /** Frames ordered by arrival time */
+  messages: RecordedMessage[]
+}
+
+/** Frames of one venue/symbol/channel with the positions a seek can rebuild the book from */
+interface ReplayStream {
+  venue: Venue
+  messages: RecordedMessage[]
+  /** Indexes of frames that carry a full book snapshot */
+  snapshots: number[]
+  /** Index of the next frame to feed */
+  cursor: number
+  processor: BookProcessor
+  latency: LatencyTracker
+  reportedCount: number
+}
+
+const isRecordedMessage = (value: any): value is RecordedMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof value.receivedAt === "number" &&
+  VENUES.includes(value.venue) &&
+  (value.symbol === null || isSymbol(value.symbol)) &&
+  typeof value.channel === "string" &&
+  typeof value.raw === "string"
+
+/**
+ * Parse an NDJSON capture written by the feed recorder.
+ * Malformed lines, e.g. a truncated last line, are skipped rather than failing the whole file.
+ */
+export function parseCapture(text: string): RecordedMessage[] {
+  const messages: RecordedMessage[] = []
+  let skipped = 0
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const message = JSON.parse(line)
+      if (isRecordedMessage(message)) {
+        messages.push(message)
+      } else {
+        skipped++
+      }
+    } catch {
+      skipped++
+    }
+  }
+
+  if (skipped > 0) console.warn(`Skipped ${skipped} malformed capture lines`)
+
+  // Rotated server files can be concatenated in any order
+  return messages.sort((a, b) => a.receivedAt - b.receivedAt)
+}
+
+/**
+ * Find the frames that reset the book, by running them through the venue's parser once up front
+ */
+const indexSnapshots = (venue: Venue, messages: RecordedMessage[]): number[] => {
+  const adapter = getVenueAdapter(venue)
+  const snapshots: number[] = []
+
+  messages.forEach((message, index) => {
+    try {
+      if (adapter.parseMessage(JSON.parse(message.raw))?.action === "snapshot") snapshots.push(index)
+    } catch {
+      // Heartbeat replies and other plain text frames
+    }
+  })
+
+  return snapshots
+}
+
+const clampSpeed = (speed: number) => Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, speed))
+
+/**
+ * Play a capture back through the same book processor the live sockets use, on a virtual clock
+ * that can be paused, sought and run at 0.25x to 20x.
+ * Streams without a snapshot frame, e.g. Binance, whose snapshot comes over REST, are reported as errors
+ * rather than replayed.
+ */
+export function createReplayFeedClient(capture: ReplayCapture, onEvent: (event: FeedEvent) => void): FeedClient {
+  let streams: ReplayStream[] = []
+  let symbol: Symbol | null = null
+  let pendingBooks: Partial<Record<Venue, Orderbook>> = {}
+  let pendingTrades: Trade[] = []
+  let tradesReset = false
+  let playing = false
+  let speed = 1
+  let position = 0
+  let start = 0
+  let end = 0
+  let playInterval: ReturnType<typeof setInterval> | null = null
+  let lastTick = 0
+
+  const state = (): ReplayState => ({ playing, speed, position, start, end })
+
+  const emitState = () => onEvent({ type: "replayState", state: state() })
+
+  const flush = () => {
+    if (!symbol) return
+
+    const orderbooks = pendingBooks
+    pendingBooks = {}
+    if (Object.keys(orderbooks).length > 0) {
+      onEvent({ type: "books", symbol, orderbooks })
+    }
+
+    const trades = pendingTrades
+    pendingTrades = []
+    if (trades.length > 0 || tradesReset) {
+      onEvent({ type: "trades", symbol, trades, reset: tradesReset })
+      tradesReset = false
+    }
+
+    streams.forEach((stream) => {
+      if (stream.latency.count() === stream.reportedCount) return
+      stream.reportedCount = stream.latency.count()
+      onEvent({ type: "latency", venue: stream.venue, symbol: symbol!, stats: stream.latency.snapshot() })
+    })
+  }
+
+  const openStream = (venue: Venue, streamSymbol: Symbol, messages: RecordedMessage[]): ReplayStream => {
+    const latency = createLatencyTracker()
+    const processor = createBookProcessor(
+      venue,
+      streamSymbol,
+      messages[0].channel,
+      {
+        onBook: (orderbook) => {
+          // Books keep their stale flag during resyncs, everything else is marked as replayed
+          pendingBooks[venue] = { ...orderbook, source: orderbook.source === "live" ? "replay" : orderbook.source }
+        },
+        onTrades: (trades) => {
+          pendingTrades = pendingTrades.concat(trades).slice(-MAX_PENDING_TRADES)
+        },
+        onStatus: (status) => onEvent({ type: "status", venue, symbol: streamSymbol, status }),
+        onError: (message) => onEvent({ type: "error", message }),
+        onChecksumMismatch: () => onEvent({ type: "checksumMismatch", venue, symbol: streamSymbol }),
+        onUpdate: (update, receivedAt) => latency.record(receivedAt, update.exchangeTimestamp, update.matchTimestamp),
+      },
+      { fetchSnapshots: false },
+    )
+
+    return {
+      venue,
+      messages,
+      snapshots: indexSnapshots(venue, messages),
+      cursor: 0,
+      processor,
+      latency,
+      reportedCount: 0,
+    }
+  }
+
+  /**
+   * Feed every frame up to the current position
+   */
+  const advance = () => {
+    streams.forEach((stream) => {
+      while (stream.cursor < stream.messages.length && stream.messages[stream.cursor].receivedAt <= position) {
+        const message = stream.messages[stream.cursor++]
+        stream.processor.handleMessage(message.raw, message.receivedAt)
+      }
+    })
+  }
+
+  const stopClock = () => {
+    if (playInterval) clearInterval(playInterval)
+    playInterval = null
+  }
+
+  const pause = () => {
+    stopClock()
+    playing = false
+    emitState()
+  }
+
+  const tick = () => {
+    const now = Date.now()
+    position = Math.min(end, position + (now - lastTick) * speed)
+    lastTick = now
+
+    advance()
+    flush()
+
+    if (position >= end) {
+      pause()
+    } else {
+      emitState()
+    }
+  }
+
+  const play = () => {
+    if (playing || streams.length === 0) return
+
+    // Playing from the end starts over
+    if (position >= end) seek(start)
+
+    playing = true
+    lastTick = Date.now()
+    playInterval = setInterval(tick, PUBLISH_INTERVAL_MS)
+    emitState()
+  }
+
+  /**
+   * Rebuild each book from the last snapshot before the target instead of replaying from the start
+   */
+  const seek = (target: number) => {
+    position = Math.min(end, Math.max(start, target))
+    // The tape restarts with the trades leading up to the new position
+    pendingTrades = []
+    tradesReset = true
+
+    streams.forEach((stream) => {
+      // Before the first snapshot there is nothing to show, and deltas ahead of it would only be dropped
+      const from =
+        stream.snapshots.findLast((index) => stream.messages[index].receivedAt <= position) ?? stream.snapshots[0]
+      stream.processor.reset()
+      stream.latency.reset()
+      stream.reportedCount = 0
+      stream.cursor = from
+    })
+
+    advance()
+    flush()
+    lastTick = Date.now()
+    emitState()
+  }
+
+  const closeStreams = () => {
+    stopClock()
+    playing = false
+    streams.forEach((stream) => stream.processor.dispose())
+    streams = []
+    pendingBooks = {}
+    pendingTrades = []
+  }
+
+  /**
+   * Select the captured frames for the subscribed venues and symbol, one channel per venue
+   */
+  const subscribe = (venues: Venue[], nextSymbol: Symbol, channels: Partial<Record<Venue, string>> = {}) => {
+    const wasPlaying = playing
+    const resumeAt = position
+    closeStreams()
+    symbol = nextSymbol
+
+    const missing: Venue[] = []
+    const unsynced: Venue[] = []
+    venues.forEach((venue) => {
+      const frames = capture.messages.filter((message) => message.venue === venue && message.symbol === nextSymbol)
+      // Pairs only the venue's live listings know cannot be parsed offline
+      if (frames.length === 0 || !getInstrument(venue, nextSymbol)) {
+        missing.push(venue)
+        onEvent({ type: "status", venue, symbol: nextSymbol, status: "disconnected" })
+        return
+      }
+
+      // Prefer the selected channel, otherwise replay whichever channel was recorded first
+      const selected = getBookChannel(venue, channels[venue]).id
+      const channel = frames.some((message) => message.channel === selected) ? selected : frames[0].channel
+      const stream = openStream(
+        venue,
+        nextSymbol,
+        frames.filter((message) => message.channel === channel),
+      )
+
+      // Deltas cannot be applied without a book to apply them to, e.g. Binance, whose snapshot comes over REST
+      if (stream.snapshots.length === 0) {
+        stream.processor.dispose()
+        unsynced.push(venue)
+        onEvent({ type: "status", venue, symbol: nextSymbol, status: "error" })
+        return
+      }
+
+      streams.push(stream)
+      onEvent({ type: "status", venue, symbol: nextSymbol, status: "connecting" })
+    })
+
+    const problems = [
+      missing.length > 0 ? `${capture.fileName} has no ${nextSymbol} frames for ${missing.join(", ")}` : null,
+      unsynced.length > 0 ? `${capture.fileName} has no ${nextSymbol} snapshot for ${unsynced.join(", ")}` : null,
+    ].filter(Boolean)
+    onEvent({ type: "error", message: problems.length > 0 ? problems.join("; ") : null })
+
+    if (streams.length === 0) {
+      start = end = position = 0
+      emitState()
+      return
+    }
+
+    start = Math.min(...streams.map((stream) => stream.messages[0].receivedAt))
+    end = Math.max(...streams.map((stream) => stream.messages[stream.messages.length - 1].receivedAt))
+
+    // Switching symbol or channel keeps the playback position
+    seek(resumeAt)
+    if (wasPlaying) play()
+  }
+
+  const send = (command: FeedCommand) => {
+    switch (command.type) {
+      case "subscribe":
+        subscribe(command.venues, command.symbol, command.channels)
+        break
+
+      case "unsubscribe":
+        closeStreams()
+        symbol = null
+        break
+
+      case "replayPlay":
+        play()
+        break
+
+      case "replayPause":
+        pause()
+        break
+
+      case "replaySeek":
+        seek(command.position)
+        break
+
+      case "replaySpeed":
+        speed = clampSpeed(command.speed)
+        emitState()
+        break
+
+      // There is no connection to retry and nothing new to record during playback
+      case "retry":
+      case "startRecording":
+      case "stopRecording":
+        break
+    }
+  }
+
+  return { send, dispose: closeStreams }
+}
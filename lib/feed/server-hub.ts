@@ -0,0 +1,22 @@
+import NodeWebSocket from "ws"
+import { createFeedHub, type FeedHub } from "./feed-hub"
+
+// Venue connections use the global WebSocket, which Node.js only provides from version 22;
+// older runtimes get the `ws` implementation of the same API
+if (typeof globalThis.WebSocket === "undefined") {
+  globalThis.WebSocket = NodeWebSocket as unknown as typeof WebSocket
+}
+
+// Kept on globalThis so dev-mode module reloads do not open a second set of upstream sockets
+const globalForFeed = globalThis as typeof globalThis & { __orderbookFeedHub?: FeedHub }
+
+/**
+ * The process-wide hub behind the streaming API.
+ * Every SSE client is a session on it, so each venue/symbol/channel has one upstream socket per server.
+ */
+export function getServerFeedHub(): FeedHub {
+  if (!globalForFeed.__orderbookFeedHub) {
+    globalForFeed.__orderbookFeedHub = createFeedHub()
+  }
+  return globalForFeed.__orderbookFeedHub
+}
@@ -0,0 +1,65 @@
+import path from "node:path"
+import { getServerFeedHub } from "./server-hub"
+import { DEFAULT_ROTATE_BYTES, createRotatingFileSink } from "./file-recording-sink"
+import {
+  DEFAULT_RECORDING_LIMITS,
+  createFeedRecorder,
+  type FeedRecorder,
+  type RecordingLimits,
+  type RecordingStatus,
+} from "./recorder"
+
+/** Where server captures are written, relative to the working directory unless absolute */
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || "recordings"
+
+const globalForRecorder = globalThis as typeof globalThis & {
+  __orderbookServerRecorder?: { recorder: FeedRecorder | null; lastStatus: RecordingStatus | null }
+}
+
+const state = (globalForRecorder.__orderbookServerRecorder ??= { recorder: null, lastStatus: null })
+
+const idleStatus = (): RecordingStatus => ({
+  recording: false,
+  startedAt: null,
+  messages: 0,
+  bytes: 0,
+  limits: DEFAULT_RECORDING_LIMITS,
+  stoppedReason: null,
+})
+
+/**
+ * Record every raw frame received by the server hub, across all clients, into rotating NDJSON files.
+ * Every book is resubscribed once the recorder listens, so the capture opens with snapshots to replay from.
+ * Throws when the recordings directory cannot be created, leaving any running recording untouched.
+ */
+export function startServerRecording(limits: RecordingLimits): RecordingStatus {
+  const sink = createRotatingFileSink({
+    directory: path.resolve(RECORDINGS_DIR),
+    rotateBytes: DEFAULT_ROTATE_BYTES,
+    startedAt: Date.now(),
+  })
+  state.recorder?.stop()
+
+  let removeListener = () => {}
+
+  const recorder = createFeedRecorder(sink, limits, (status) => {
+    state.lastStatus = status
+    if (!status.recording) removeListener()
+  })
+  const hub = getServerFeedHub()
+  removeListener = hub.addRawListener(recorder.record)
+  state.recorder = recorder
+  hub.refreshSnapshots()
+
+  return recorder.status()
+}
+
+export function stopServerRecording(): RecordingStatus {
+  state.recorder?.stop()
+  state.recorder = null
+  return getServerRecordingStatus()
+}
+
+export function getServerRecordingStatus(): RecordingStatus {
+  return state.recorder?.status() ?? state.lastStatus ?? idleStatus()
+}
@@ -0,0 +1,177 @@
+import type { ConnectionStatus, DerivativesTicker, Symbol, Venue } from "@/types/trading"
+import { getVenueAdapter, toFrames } from "@/lib/venues"
+import { DEFAULT_RECONNECT_POLICY, computeBackoffDelay, type ReconnectPolicy } from "./reconnect"
+import { DIAGNOSTICS_REPORT_INTERVAL_MS, createDiagnosticsTracker, type ConnectionDiagnostics } from "./diagnostics"
+
+/** Callbacks a ticker connection reports through */
+export interface TickerConnectionHandlers {
+  /** The merged ticker after every message that changed it */
+  onTicker: (ticker: DerivativesTicker) => void
+  /** Traffic, heartbeat and failure counters of the socket, reported every second */
+  onDiagnostics: (diagnostics: ConnectionDiagnostics) => void
+}
+
+export interface TickerConnection {
+  close: () => void
+}
+
+/**
+ * Follow the perpetual swap tickers (mark, index, funding, open interest) of one venue/symbol on their own socket.
+ * Venues that push partial updates are merged into one ticker. The panel is informational, so unlike book
+ * connections there is no mock fallback: after the retry budget runs out the last ticker simply stops updating.
+ * Returns null for venues without perpetual tickers.
+ */
+export function createTickerConnection(
+  venue: Venue,
+  symbol: Symbol,
+  handlers: TickerConnectionHandlers,
+  policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+): TickerConnection | null {
+  const adapter = getVenueAdapter(venue)
+  const derivatives = adapter.derivatives
+  if (!derivatives) return null
+
+  const instrument = derivatives.formatInstrument(symbol)
+  const url = derivatives.url ?? adapter.url
+  const subscribeFrames = toFrames(derivatives.subscribe(instrument))
+
+  let ws: WebSocket | null = null
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  let attempt = 0
+  let closed = false
+  let status: ConnectionStatus = "connecting"
+  let ticker: DerivativesTicker = {
+    venue,
+    symbol,
+    instrument,
+    markPrice: null,
+    indexPrice: null,
+    fundingRate: null,
+    nextFundingTime: null,
+    openInterest: null,
+    openInterestUnit: derivatives.openInterestUnit,
+    timestamp: 0,
+  }
+
+  const diagnostics = createDiagnosticsTracker(`${venue}:ticker:${instrument}`, "ticker", venue, "ticker", url)
+  const diagnosticsInterval = setInterval(() => {
+    handlers.onDiagnostics(diagnostics.snapshot(status, [instrument]))
+  }, DIAGNOSTICS_REPORT_INTERVAL_MS)
+
+  const clearTimers = () => {
+    if (heartbeatInterval) clearInterval(heartbeatInterval)
+    if (reconnectTimeout) clearTimeout(reconnectTimeout)
+    heartbeatInterval = reconnectTimeout = null
+  }
+
+  const handleMessage = (raw: unknown) => {
+    if (closed) return
+    const receivedAt = Date.now()
+    diagnostics.recordMessage(raw, receivedAt)
+    if (typeof raw !== "string") return
+
+    let data: any
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      // Plain text heartbeat replies
+      if (adapter.heartbeat?.isReply(raw)) diagnostics.recordHeartbeatReply(receivedAt)
+      return
+    }
+
+    if (adapter.heartbeat?.isReply(data)) {
+      diagnostics.recordHeartbeatReply(receivedAt)
+      return
+    }
+    if (adapter.isSubscriptionAck(data)) {
+      diagnostics.recordAck(receivedAt)
+      return
+    }
+
+    const update = derivatives.parse(data)
+    if (!update) return
+
+    // Data is flowing, so the next outage starts with a fresh budget
+    attempt = 0
+    ticker = { ...ticker, ...update, timestamp: Date.now() }
+    handlers.onTicker(ticker)
+  }
+
+  const scheduleReconnect = () => {
+    if (closed) return
+    if (attempt >= policy.maxAttempts) {
+      diagnostics.recordEvent(`Gave up after ${attempt} attempts`)
+      status = "error"
+      return
+    }
+    status = "disconnected"
+    reconnectTimeout = setTimeout(openSocket, computeBackoffDelay(attempt, policy))
+  }
+
+  const openSocket = () => {
+    clearTimers()
+    attempt++
+    status = "connecting"
+    diagnostics.recordConnect()
+
+    try {
+      const socket = new WebSocket(url)
+
+      socket.onopen = () => {
+        status = "connected"
+        diagnostics.recordOpen(Date.now())
+        diagnostics.recordEvent(`Subscribed to ${instrument}`)
+        subscribeFrames.forEach((frame) => socket.send(frame))
+
+        const heartbeat = adapter.heartbeat
+        if (heartbeat) {
+          heartbeatInterval = setInterval(() => {
+            if (socket.readyState !== WebSocket.OPEN) return
+            socket.send(heartbeat.message())
+            diagnostics.recordHeartbeatSent(Date.now())
+          }, heartbeat.intervalMs)
+        }
+      }
+
+      socket.onmessage = (event) => handleMessage(event.data)
+
+      // The close that follows schedules the retry
+      socket.onerror = () => diagnostics.recordError("WebSocket error")
+
+      socket.onclose = (event) => {
+        diagnostics.recordError(event.wasClean ? "Closed by the venue" : "Connection lost", {
+          code: event.code,
+          reason: event.reason,
+        })
+        diagnostics.recordClosed()
+        ws = null
+        clearTimers()
+        scheduleReconnect()
+      }
+
+      ws = socket
+    } catch (error) {
+      diagnostics.recordError(error instanceof Error ? error.message : "Failed to connect")
+      scheduleReconnect()
+    }
+  }
+
+  const close = () => {
+    closed = true
+    clearTimers()
+    clearInterval(diagnosticsInterval)
+    if (ws) {
+      ws.onclose = null
+      ws.onerror = null
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(1000, "Component unmounting")
+      }
+      ws = null
+    }
+  }
+
+  openSocket()
+
+  return { close }
+}
@@ -0,0 +1,534 @@
+import type { Venue, Symbol, Orderbook, ConnectionStatus, Trade } from "@/types/trading"
+import { getMockOrderbookForVenue, recordReferencePrice } from "@/hooks/use-mock-data"
+import { getBookChannel, getVenueAdapter, toFrames } from "@/lib/venues"
+import { formatSymbolForVenue, getInstrument, loadInstruments } from "@/lib/instruments"
+import {
+  DEFAULT_RECONNECT_POLICY,
+  createReconnectState,
+  transitionReconnect,
+  type ReconnectEvent,
+  type ReconnectPolicy,
+  type ReconnectState,
+} from "./reconnect"
+import {
+  LATENCY_REPORT_INTERVAL_MS,
+  createLatencyTracker,
+  type LatencyStats,
+  type LatencyTracker,
+} from "./latency-stats"
+import { createBookProcessor, type BookProcessor } from "./book-processor"
+import { DIAGNOSTICS_REPORT_INTERVAL_MS, createDiagnosticsTracker, type ConnectionDiagnostics } from "./diagnostics"
+
+/** Callbacks a venue connection reports through; per-book callbacks name the symbol they concern */
+export interface VenueConnectionHandlers {
+  /** Full view of a symbol's local book after every applied update */
+  onBook: (symbol: Symbol, orderbook: Orderbook) => void
+  /** Socket phases are reported for every symbol, snapshot and resync phases for the symbol they affect */
+  onStatus: (symbol: Symbol, status: ConnectionStatus) => void
+  onError: (message: string | null) => void
+  onChecksumMismatch: (symbol: Symbol) => void
+  /** Trades from the venue's trades channel, oldest first */
+  onTrades?: (trades: Trade[]) => void
+  /** Reconnection phase, attempt count and next retry time of the shared socket */
+  onReconnectState: (state: ReconnectState) => void
+  /** Latency and update interval statistics per symbol, reported periodically while updates arrive */
+  onLatencyStats: (symbol: Symbol, stats: LatencyStats) => void
+  /** Traffic, heartbeat and failure counters of the socket, reported every second */
+  onDiagnostics: (diagnostics: ConnectionDiagnostics) => void
+  /**
+   * Every inbound text frame, for recording: once per symbol it belongs to, or once with a null symbol
+   * for frames that belong to none, e.g. acks, heartbeats and errors
+   */
+  onRawMessage?: (symbol: Symbol | null, raw: string, receivedAt: number) => void
+}
+
+export interface VenueConnection {
+  /** Start following a symbol on the shared socket, without reconnecting */
+  addSymbol: (symbol: Symbol) => void
+  /** Stop following a symbol; the socket stays open for the others */
+  removeSymbol: (symbol: Symbol) => void
+  /**
+   * Resubscribe the books of the given symbols, or of every symbol, so the venue sends fresh snapshots,
+   * e.g. for a capture starting now. Venues whose snapshots come over REST are left alone.
+   */
+  refreshSnapshots: (symbols?: Symbol[]) => void
+  /** Skip the current backoff, or start over after the retry budget ran out */
+  retryNow: () => void
+  /** Close the socket and stop reconnecting */
+  close: () => void
+}
+
+/** One symbol's book on the shared socket */
+interface BookStream {
+  symbol: Symbol
+  instrument: string
+  processor: BookProcessor
+  // Statistics survive reconnects so a flaky feed shows up in the percentiles
+  latency: LatencyTracker
+  reportedCount: number
+}
+
+/**
+ * Manage one venue/channel WebSocket multiplexing any number of symbols: book and trade subscriptions,
+ * heartbeat, a local book per symbol with sequence and checksum resyncs, and reconnection.
+ * Symbols are added and removed with subscribe/unsubscribe frames on the open socket. The venue's instruments
+ * are loaded before the first connect, so every symbol resolves to the instrument the venue actually lists.
+ * Framework-free so it can run inside a worker as well as on the main thread.
+ */
+export function createVenueConnection(
+  venue: Venue,
+  channelId: string | undefined,
+  handlers: VenueConnectionHandlers,
+  policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+): VenueConnection {
+  const adapter = getVenueAdapter(venue)
+  const channel = getBookChannel(venue, channelId)
+  const streams = new Map<Symbol, BookStream>()
+  // Symbols added while the instruments load
+  let pendingSymbols: Set<Symbol> | null = new Set()
+
+  let ws: WebSocket | null = null
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null
+  let mockInterval: ReturnType<typeof setInterval> | null = null
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  let connectionTimeout: ReturnType<typeof setTimeout> | null = null
+  let reconnectState = createReconnectState(policy)
+  let socketStatus: ConnectionStatus = "disconnected"
+  let closed = false
+
+  const diagnostics = createDiagnosticsTracker(`${venue}:${channel.id}`, "book", venue, channel.id, adapter.url)
+
+  const latencyInterval = setInterval(() => {
+    streams.forEach((stream) => {
+      if (stream.latency.count() === stream.reportedCount) return
+      stream.reportedCount = stream.latency.count()
+      handlers.onLatencyStats(stream.symbol, stream.latency.snapshot())
+    })
+  }, LATENCY_REPORT_INTERVAL_MS)
+
+  const diagnosticsInterval = setInterval(() => {
+    handlers.onDiagnostics(diagnostics.snapshot(socketStatus, subscribedInstruments()))
+  }, DIAGNOSTICS_REPORT_INTERVAL_MS)
+
+  /** Several symbols can map to one instrument, e.g. BTC-USD and BTC-USDT are both BTC-PERPETUAL on Deribit */
+  const streamsFor = (instrument: string) => [...streams.values()].filter((stream) => stream.instrument === instrument)
+
+  const subscribedInstruments = () => [...new Set([...streams.values()].map((stream) => stream.instrument))]
+
+  const subscribeFrames = (instruments: string[]) => [
+    ...toFrames(adapter.subscribe(instruments, channel.id)),
+    // Trades are subscribed once per instrument; book resyncs leave them running
+    ...(adapter.trades ? toFrames(adapter.trades.subscribe(instruments)) : []),
+  ]
+
+  const unsubscribeFrames = (instruments: string[]) => [
+    ...toFrames(adapter.unsubscribe(instruments, channel.id)),
+    ...(adapter.trades ? toFrames(adapter.trades.unsubscribe(instruments)) : []),
+  ]
+
+  const send = (frames: string[]) => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return
+
+    try {
+      frames.forEach((frame) => ws?.send(frame))
+    } catch (error) {
+      diagnostics.recordError(`Failed to send: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  /**
+   * Report a socket-level phase for every symbol
+   */
+  const setSocketStatus = (status: ConnectionStatus) => {
+    socketStatus = status
+    streams.forEach((stream) => handlers.onStatus(stream.symbol, status))
+  }
+
+  /**
+   * Resubscribe one instrument's book on the open socket to receive a fresh snapshot
+   */
+  const resubscribe = (instrument: string) => {
+    send([
+      ...toFrames(adapter.unsubscribe([instrument], channel.id)),
+      ...toFrames(adapter.subscribe([instrument], channel.id)),
+    ])
+  }
+
+  const openStream = (symbol: Symbol): BookStream => {
+    const instrument = formatSymbolForVenue(venue, symbol)
+    const latency = createLatencyTracker()
+
+    // Parsing, book maintenance and resyncs live in the processor so capture replay shares them
+    const processor = createBookProcessor(venue, symbol, channel.id, {
+      onBook: (orderbook) => {
+        recordReferencePrice(symbol, orderbook)
+        handlers.onBook(symbol, orderbook)
+      },
+      onStatus: (status) => handlers.onStatus(symbol, status),
+      onError: (message) => {
+        if (message) diagnostics.recordError(message)
+        handlers.onError(message)
+      },
+      onChecksumMismatch: () => handlers.onChecksumMismatch(symbol),
+      onTrades: handlers.onTrades,
+      onEvent: (message) => diagnostics.recordEvent(`${instrument}: ${message}`),
+      onUpdate: (update, receivedAt) => latency.record(receivedAt, update.exchangeTimestamp, update.matchTimestamp),
+      onSynced: () => dispatch({ type: "healthy" }),
+      onResubscribe: () => resubscribe(instrument),
+    })
+
+    return { symbol, instrument, processor, latency, reportedCount: 0 }
+  }
+
+  const clearTimers = () => {
+    if (heartbeatInterval) clearInterval(heartbeatInterval)
+    if (mockInterval) clearInterval(mockInterval)
+    if (reconnectTimeout) clearTimeout(reconnectTimeout)
+    if (connectionTimeout) clearTimeout(connectionTimeout)
+    heartbeatInterval = mockInterval = reconnectTimeout = connectionTimeout = null
+    // Drops any pending snapshot fetch or retry along with the socket's books
+    streams.forEach((stream) => stream.processor.reset())
+  }
+
+  /**
+   * Send heartbeat/ping messages to keep connections alive
+   */
+  const setupHeartbeat = (socket: WebSocket) => {
+    const heartbeat = adapter.heartbeat
+    if (!heartbeat) return
+
+    heartbeatInterval = setInterval(() => {
+      if (socket.readyState === WebSocket.OPEN) {
+        try {
+          socket.send(heartbeat.message())
+          diagnostics.recordHeartbeatSent(Date.now())
+        } catch (error) {
+          diagnostics.recordError(`Heartbeat failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+          if (heartbeatInterval) clearInterval(heartbeatInterval)
+        }
+      } else if (heartbeatInterval) {
+        clearInterval(heartbeatInterval)
+      }
+    }, heartbeat.intervalMs)
+  }
+
+  const recordRaw = (raw: string, receivedAt: number, instrument: string | null) => {
+    if (!handlers.onRawMessage) return
+    const routed = instrument ? streamsFor(instrument) : []
+    if (routed.length === 0) handlers.onRawMessage(null, raw, receivedAt)
+    routed.forEach((stream) => handlers.onRawMessage?.(stream.symbol, raw, receivedAt))
+  }
+
+  /**
+   * Decode one inbound frame and hand it to the books of the instrument it belongs to
+   */
+  const handleMessage = (raw: unknown) => {
+    if (closed) return
+    const receivedAt = Date.now()
+    diagnostics.recordMessage(raw, receivedAt)
+
+    if (typeof raw !== "string") {
+      diagnostics.recordEvent("Ignored a binary frame")
+      return
+    }
+
+    let data: any
+    try {
+      data = JSON.parse(raw)
+    } catch (parseError) {
+      recordRaw(raw, receivedAt, null)
+      // Plain text frames are only expected as heartbeat replies
+      if (adapter.heartbeat?.isReply(raw)) {
+        diagnostics.recordHeartbeatReply(receivedAt)
+      } else {
+        diagnostics.recordEvent(`Ignored an unparseable frame: ${raw.slice(0, 100)}`)
+      }
+      return
+    }
+
+    // Adapters read fields off every frame, so valid JSON that is not an object, e.g. null, goes no further
+    if (!data || typeof data !== "object") {
+      recordRaw(raw, receivedAt, null)
+      diagnostics.recordEvent(`Ignored a frame that is not an object: ${raw.slice(0, 100)}`)
+      return
+    }
+
+    // Recorded before anything is filtered out, so a capture holds the whole conversation with the venue
+    const instrument = adapter.instrumentOf(data)
+    recordRaw(raw, receivedAt, instrument)
+
+    // Handle ping/pong messages
+    if (adapter.heartbeat?.isReply(data)) {
+      diagnostics.recordHeartbeatReply(receivedAt)
+      return
+    }
+
+    // Handle subscription confirmations
+    if (adapter.isSubscriptionAck(data)) {
+      diagnostics.recordAck(receivedAt)
+      return
+    }
+
+    // A rejection fails the books of the instrument it names; one naming none fails every book on the socket
+    // rather than leave them waiting for data that never comes
+    const rejection = adapter.errorOf(data)
+    if (rejection) {
+      diagnostics.recordError(rejection)
+      handlers.onError(`${venue} rejected the request: ${rejection}`)
+      const rejected = instrument ? streamsFor(instrument) : []
+      if (rejected.length > 0) {
+        rejected.forEach((stream) => handlers.onStatus(stream.symbol, "error"))
+      } else {
+        setSocketStatus("error")
+      }
+      return
+    }
+
+    if (!instrument) return
+
+    streamsFor(instrument).forEach((stream) => stream.processor.handleData(data, receivedAt))
+  }
+
+  const publishMockBooks = () => {
+    streams.forEach((stream) => stream.processor.publish(getMockOrderbookForVenue(venue, stream.symbol)))
+  }
+
+  /**
+   * Serve generated books when the venue cannot be reached
+   */
+  const startMockFallback = () => {
+    setSocketStatus("mock")
+    publishMockBooks()
+
+    // Update mock data periodically
+    mockInterval = setInterval(publishMockBooks, 2000)
+  }
+
+  /**
+   * Drop the current socket without triggering the failure path
+   */
+  const teardownSocket = () => {
+    if (ws) {
+      ws.onclose = null
+      ws.onerror = null
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(1000, "Component unmounting")
+      }
+      ws = null
+    }
+    diagnostics.recordClosed()
+    clearTimers()
+  }
+
+  /**
+   * Advance the reconnection state machine and run the side effects of the new phase
+   */
+  const dispatch = (event: ReconnectEvent) => {
+    const previous = reconnectState
+    const next = transitionReconnect(previous, event, policy)
+    if (next === previous) return
+
+    reconnectState = next
+    handlers.onReconnectState(next)
+
+    switch (next.phase) {
+      case "connecting":
+        if (previous.phase !== "connecting") openSocket()
+        break
+
+      case "backoff":
+        diagnostics.recordEvent(
+          `Reconnecting in ${Math.round(((next.nextRetryAt ?? Date.now()) - Date.now()) / 1000)}s ` +
+            `(attempt ${next.attempt}/${next.maxAttempts})`,
+        )
+        setSocketStatus("disconnected")
+        streams.forEach((stream) => stream.processor.markStale())
+        reconnectTimeout = setTimeout(
+          () => dispatch({ type: "retryDue" }),
+          (next.nextRetryAt ?? Date.now()) - Date.now(),
+        )
+        break
+
+      case "exhausted":
+        diagnostics.recordEvent(`Gave up after ${next.attempt} attempts, serving mock data`)
+        handlers.onError(`${venue} unreachable after ${next.attempt} attempts. Using mock data for demonstration.`)
+        startMockFallback()
+        break
+    }
+  }
+
+  /**
+   * Connect to the venue with proper error handling
+   */
+  const openSocket = () => {
+    // Clean up existing connection; every new connection starts from fresh snapshots
+    teardownSocket()
+
+    setSocketStatus("connecting")
+    diagnostics.recordConnect()
+
+    try {
+      const socket = new WebSocket(adapter.url)
+
+      // Set binary type for better performance
+      socket.binaryType = "arraybuffer"
+
+      // A socket that does not open in time counts as a failed attempt
+      connectionTimeout = setTimeout(() => {
+        if (socket.readyState !== WebSocket.OPEN) {
+          diagnostics.recordError("Connection timed out")
+          teardownSocket()
+          dispatch({ type: "fail" })
+        }
+      }, 15000) // 15 second timeout
+
+      socket.onopen = () => {
+        if (connectionTimeout) clearTimeout(connectionTimeout)
+        diagnostics.recordOpen(Date.now())
+        diagnostics.recordEvent("Connected")
+        setSocketStatus("connected")
+        handlers.onError(null)
+        dispatch({ type: "open" })
+
+        // Every followed instrument goes into one subscription request
+        const instruments = subscribedInstruments()
+        if (instruments.length > 0) {
+          send(subscribeFrames(instruments))
+          diagnostics.recordEvent(`Subscribed to ${instruments.join(", ")}`)
+        }
+
+        // Venues without a stream snapshot are bootstrapped over REST
+        streams.forEach((stream) => stream.processor.bootstrap())
+
+        // Setup heartbeat
+        setupHeartbeat(socket)
+      }
+
+      socket.onmessage = (event) => handleMessage(event.data)
+
+      socket.onerror = () => {
+        setSocketStatus("error")
+        diagnostics.recordError("WebSocket error")
+        handlers.onError(`${venue} connection failed, retrying.`)
+      }
+
+      socket.onclose = (event) => {
+        // We detach onclose before closing sockets ourselves, so any close seen here was unexpected
+        diagnostics.recordError(event.wasClean ? "Closed by the venue" : "Connection lost", {
+          code: event.code,
+          reason: event.reason,
+        })
+        diagnostics.recordClosed()
+        ws = null
+        clearTimers()
+        dispatch({ type: "fail" })
+      }
+
+      ws = socket
+    } catch (error) {
+      diagnostics.recordError(error instanceof Error ? error.message : "Failed to connect")
+      setSocketStatus("error")
+      handlers.onError(`Failed to connect to ${venue}: ${error instanceof Error ? error.message : "Unknown error"}`)
+
+      // Defer so the state machine has finished entering "connecting"
+      reconnectTimeout = setTimeout(() => dispatch({ type: "fail" }), 0)
+    }
+  }
+
+  const addSymbol = (symbol: Symbol) => {
+    if (closed || streams.has(symbol)) return
+
+    if (pendingSymbols) {
+      pendingSymbols.add(symbol)
+      handlers.onStatus(symbol, "connecting")
+      return
+    }
+
+    if (!getInstrument(venue, symbol)) {
+      handlers.onStatus(symbol, "error")
+      handlers.onError(`${venue} does not list ${symbol}`)
+      return
+    }
+
+    const stream = openStream(symbol)
+    const shared = streamsFor(stream.instrument).length > 0
+    streams.set(symbol, stream)
+
+    if (socketStatus === "mock") {
+      handlers.onStatus(symbol, "mock")
+      stream.processor.publish(getMockOrderbookForVenue(venue, symbol))
+      return
+    }
+
+    const isOpen = ws?.readyState === WebSocket.OPEN
+    // On an open socket the book counts as connecting until its snapshot arrives
+    handlers.onStatus(symbol, isOpen ? "connecting" : socketStatus)
+    if (!isOpen) return
+
+    if (!shared) {
+      send(subscribeFrames([stream.instrument]))
+      diagnostics.recordEvent(`Subscribed to ${stream.instrument}`)
+    } else if (!adapter.fetchSnapshot) {
+      // The instrument is already streaming, so a snapshot for the new book needs a resubscribe
+      resubscribe(stream.instrument)
+    }
+    stream.processor.bootstrap()
+  }
+
+  const removeSymbol = (symbol: Symbol) => {
+    pendingSymbols?.delete(symbol)
+    const stream = streams.get(symbol)
+    if (!stream) return
+
+    streams.delete(symbol)
+    stream.processor.dispose()
+
+    if (streamsFor(stream.instrument).length === 0) {
+      send(unsubscribeFrames([stream.instrument]))
+      diagnostics.recordEvent(`Unsubscribed from ${stream.instrument}`)
+    }
+  }
+
+  const refreshSnapshots = (symbols?: Symbol[]) => {
+    if (adapter.fetchSnapshot || ws?.readyState !== WebSocket.OPEN) return
+
+    const instruments = new Set(
+      [...streams.values()]
+        .filter((stream) => !symbols || symbols.includes(stream.symbol))
+        .map((stream) => stream.instrument),
+    )
+    if (instruments.size === 0) return
+
+    instruments.forEach(resubscribe)
+    diagnostics.recordEvent(`Requested fresh snapshots of ${[...instruments].join(", ")}`)
+  }
+
+  const retryNow = () => {
+    if (reconnectState.phase !== "backoff" && reconnectState.phase !== "exhausted") return
+
+    diagnostics.recordEvent("Manual reconnect")
+    teardownSocket()
+    dispatch({ type: "connect" })
+  }
+
+  const close = () => {
+    closed = true
+    clearInterval(latencyInterval)
+    clearInterval(diagnosticsInterval)
+    teardownSocket()
+    streams.forEach((stream) => stream.processor.dispose())
+    streams.clear()
+    dispatch({ type: "stop" })
+  }
+
+  loadInstruments(venue).then((note) => {
+    if (closed) return
+    diagnostics.recordEvent(note)
+    const symbols = pendingSymbols ?? new Set<Symbol>()
+    pendingSymbols = null
+    dispatch({ type: "connect" })
+    symbols.forEach(addSymbol)
+  })
+
+  return { addSymbol, removeSymbol, refreshSnapshots, retryNow, close }
+}
@@ -0,0 +1,84 @@
+import { computePercentiles, type Percentiles } from "@/lib/feed/latency-stats"
+
+/** Frames and commits older than this drop out of the statistics */
+export const FRAME_WINDOW_MS = 5000
+
+/** Frames taking longer than this are counted as long frames, which users notice as stutter */
+export const LONG_FRAME_MS = 50
+
+export interface FrameStats {
+  /** Frames per second over the window */
+  fps: number
+  /** Time between consecutive animation frames in ms */
+  frameTime: Percentiles | null
+  /** Frames in the window over LONG_FRAME_MS */
+  longFrames: number
+  /** React commits per second of the profiled tree */
+  commitsPerSecond: number
+  /** Time React spent rendering each commit in ms */
+  commitTime: Percentiles | null
+}
+
+export interface FrameMonitor {
+  /** Start sampling animation frames */
+  start: () => void
+  stop: () => void
+  /** Record one React commit, e.g. from a Profiler's onRender */
+  recordCommit: (duration: number) => void
+  /** Compute statistics over the current window */
+  snapshot: () => FrameStats
+}
+
+/**
+ * Measure frame times and React render cost in the browser, to compare rendering strategies under load.
+ * Frames are sampled with requestAnimationFrame, so a hidden document records none.
+ */
+export function createFrameMonitor(windowMs = FRAME_WINDOW_MS): FrameMonitor {
+  let frames: { at: number; duration: number }[] = []
+  let commits: { at: number; duration: number }[] = []
+  let lastFrame: number | null = null
+  let frame: number | null = null
+
+  const prune = (now: number) => {
+    frames = frames.filter((sample) => now - sample.at <= windowMs)
+    commits = commits.filter((sample) => now - sample.at <= windowMs)
+  }
+
+  const onFrame = (now: number) => {
+    if (lastFrame !== null) frames.push({ at: now, duration: now - lastFrame })
+    lastFrame = now
+    frame = requestAnimationFrame(onFrame)
+  }
+
+  return {
+    start: () => {
+      if (frame !== null) return
+      lastFrame = null
+      frame = requestAnimationFrame(onFrame)
+    },
+
+    stop: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+    },
+
+    recordCommit: (duration) => {
+      commits.push({ at: performance.now(), duration })
+    },
+
+    snapshot: () => {
+      const now = performance.now()
+      prune(now)
+
+      // Rates cover the time actually sampled, so the first seconds are not underestimated
+      const span = Math.min(windowMs, frames.length > 0 ? now - frames[0].at + frames[0].duration : windowMs) / 1000
+      return {
+        fps: frames.length / span,
+        frameTime: computePercentiles(frames.map((sample) => sample.duration)),
+        longFrames: frames.filter((sample) => sample.duration > LONG_FRAME_MS).length,
+        commitsPerSecond: commits.length / span,
+        commitTime: computePercentiles(commits.map((sample) => sample.duration)),
+      }
+    },
+  }
+}
@@ -0,0 +1,194 @@
+import type { InstrumentSpec, Orderbook, SizeUnit, Symbol, Trade, Venue } from "@/types/trading"
+import { getVenueAdapter } from "@/lib/venues"
+import type { InstrumentListing } from "@/lib/venues/types"
+import { SYMBOLS } from "@/lib/symbols"
+
+/** How long an instruments endpoint may take before the bundled listings are used instead */
+export const INSTRUMENTS_TIMEOUT_MS = 5000
+
+/**
+ * NEXT_PUBLIC_INSTRUMENTS=bundled skips the instruments endpoints, e.g. offline or against the mock exchange
+ */
+const BUNDLED_ONLY = process.env.NEXT_PUBLIC_INSTRUMENTS === "bundled"
+
+/** Sizes show at most this many decimals, even for instruments with finer lots */
+export const MAX_SIZE_DECIMALS = 4
+
+/** Quotes standing in for each other when a venue does not list the requested one, in order of preference */
+const USD_QUOTES = ["USD", "USDT", "USDC"]
+
+const loaded = new Map<Venue, InstrumentListing[]>()
+const loading = new Map<Venue, Promise<string>>()
+
+/**
+ * Decimals needed to print multiples of a tick or lot size, e.g. 2 for 0.01 and 1 for 0.5
+ */
+export const decimalsOf = (step: number): number => {
+  if (!(step > 0)) return 0
+  let decimals = 0
+  while (decimals < 12 && Math.abs(Math.round(step * 10 ** decimals) - step * 10 ** decimals) > 1e-9) decimals++
+  return decimals
+}
+
+/**
+ * Round a price or size to the nearest multiple of the step, without floating point residue
+ */
+export const roundToStep = (value: number, step: number): number =>
+  step > 0 ? Number((Math.round(value / step) * step).toFixed(decimalsOf(step))) : value
+
+/** Smallest quantity the venue accepts: the minimum order size, rounded up to a whole lot */
+export const minOrderSize = (spec: InstrumentSpec): number =>
+  spec.lotSize > 0
+    ? Number((Math.ceil(spec.minSize / spec.lotSize - 1e-9) * spec.lotSize).toFixed(decimalsOf(spec.lotSize)))
+    : spec.minSize
+
+const findListing = (listings: InstrumentListing[], symbol: Symbol): InstrumentListing | null => {
+  const [base, quote] = symbol.split("-")
+  const quotes = USD_QUOTES.includes(quote) ? [quote, ...USD_QUOTES.filter((each) => each !== quote)] : [quote]
+
+  for (const candidate of quotes) {
+    const listing = listings.find((each) => each.base === base && each.quote === candidate)
+    if (listing) return listing
+  }
+  return null
+}
+
+const toSpec = (venue: Venue, listing: InstrumentListing, source: InstrumentSpec["source"]): InstrumentSpec => ({
+  ...listing,
+  venue,
+  priceDecimals: decimalsOf(listing.tickSize),
+  sizeDecimals: decimalsOf(listing.lotSize),
+  source,
+})
+
+/**
+ * The venue instrument a symbol trades as, or null when the venue lists nothing for it.
+ * Listings loaded from the venue win over the bundled ones; a USD pair the venue does not list
+ * resolves to its USDT or USDC pair, whose `quote` says so.
+ */
+export const getInstrument = (venue: Venue, symbol: Symbol): InstrumentSpec | null => {
+  const fetched = loaded.get(venue)
+  const listing = fetched && findListing(fetched, symbol)
+  if (listing) return toSpec(venue, listing, "venue")
+
+  const bundled = findListing(getVenueAdapter(venue).instruments.fallback, symbol)
+  return bundled ? toSpec(venue, bundled, "bundled") : null
+}
+
+/**
+ * Venue instrument id for a symbol, e.g. OKX BTC-USDT, Bybit/Binance BTCUSDT, Deribit BTC-PERPETUAL,
+ * Coinbase BTC-USD and Kraken BTC/USD
+ */
+export const formatSymbolForVenue = (venue: Venue, symbol: Symbol): string => {
+  const spec = getInstrument(venue, symbol)
+  if (!spec) throw new Error(`${venue} does not list ${symbol}`)
+  return spec.instrument
+}
+
+/**
+ * Load a venue's instruments once per context (worker, server or page). Resolves either way, with a note on
+ * where the listings came from for connection logs: when the endpoint fails or times out the bundled listings stay in use.
+ */
+export const loadInstruments = (venue: Venue): Promise<string> => {
+  let promise = loading.get(venue)
+  if (promise) return promise
+
+  promise = BUNDLED_ONLY
+    ? Promise.resolve("Using bundled instruments")
+    : new Promise<InstrumentListing[]>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error("Timed out")), INSTRUMENTS_TIMEOUT_MS)
+        getVenueAdapter(venue)
+          .instruments.fetch(SYMBOLS)
+          .then(resolve, reject)
+          .finally(() => clearTimeout(timeout))
+      })
+        .then((listings) => {
+          if (listings.length === 0) throw new Error("No instruments listed")
+          loaded.set(venue, listings)
+          return `Loaded ${listings.length} instruments`
+        })
+        .catch(
+          (error) =>
+            `Instruments unavailable (${error instanceof Error ? error.message : error}), using bundled listings`,
+        )
+
+  loading.set(venue, promise)
+  return promise
+}
+
+/**
+ * Name of a size unit for an instrument, e.g. "BTC", "USD" or "contracts"
+ */
+export const unitLabel = (spec: InstrumentSpec, unit: SizeUnit): string =>
+  unit === "base" ? spec.base : unit === "quote" ? spec.quote : "contracts"
+
+/**
+ * Book, trade and order size unit of an instrument, e.g. "BTC" for spot or "USD" for inverse perpetuals
+ */
+export const sizeUnitLabel = (spec: InstrumentSpec): string => unitLabel(spec, spec.sizeUnit)
+
+/**
+ * A size in the instrument's unit expressed in the base currency, at the given price
+ */
+export const toBaseSize = (spec: InstrumentSpec, size: number, price: number): number => {
+  if (spec.sizeUnit === "base") return size
+  if (spec.sizeUnit === "quote") return price > 0 ? size / price : 0
+
+  const value = size * spec.contractValue
+  return spec.contractCurrency === spec.base ? value : price > 0 ? value / price : 0
+}
+
+/**
+ * A base currency size expressed in the instrument's unit, at the given price
+ */
+export const fromBaseSize = (spec: InstrumentSpec, size: number, price: number): number => {
+  if (spec.sizeUnit === "base") return size
+  if (spec.sizeUnit === "quote") return size * price
+
+  const value = spec.contractCurrency === spec.base ? size : size * price
+  return value / spec.contractValue
+}
+
+/**
+ * A size in the instrument's unit expressed in another unit, at the given price.
+ * Contracts are the instrument's own; a spot "contract" is one base unit.
+ */
+export const convertSize = (spec: InstrumentSpec, size: number, price: number, unit: SizeUnit): number => {
+  if (unit === spec.sizeUnit) return size
+
+  const base = toBaseSize(spec, size, price)
+  if (unit === "base") return base
+  if (unit === "quote") return base * price
+  return (spec.contractCurrency === spec.base ? base : base * price) / spec.contractValue
+}
+
+/**
+ * Decimals to show sizes in a unit with: the lot precision in the instrument's own unit, cents for quote notional
+ */
+export const displaySizeDecimals = (spec: InstrumentSpec | undefined, unit: SizeUnit | undefined): number => {
+  if (!spec || !unit || unit === spec.sizeUnit)
+    return Math.min(spec?.sizeDecimals ?? MAX_SIZE_DECIMALS, MAX_SIZE_DECIMALS)
+  return unit === "quote" ? 2 : MAX_SIZE_DECIMALS
+}
+
+/**
+ * Convert every level of a book to a common size unit, so depth can be compared across venues.
+ * Books without an instrument (e.g. from older captures) are returned as they are.
+ */
+export const normalizeOrderbook = (orderbook: Orderbook, unit: SizeUnit): Orderbook => {
+  const spec = orderbook.instrument
+  if (!spec) return orderbook
+  if (unit === spec.sizeUnit) return { ...orderbook, sizeUnit: unit }
+
+  const convert = (levels: [number, number][]): [number, number][] =>
+    levels.map(([price, size]) => [price, convertSize(spec, size, price, unit)])
+  return { ...orderbook, bids: convert(orderbook.bids), asks: convert(orderbook.asks), sizeUnit: unit }
+}
+
+/**
+ * Convert trade sizes to a common unit, using the instrument of the venue's book
+ */
+export const normalizeTrades = (trades: Trade[], spec: InstrumentSpec | undefined, unit: SizeUnit): Trade[] =>
+  !spec || unit === spec.sizeUnit
+    ? trades
+    : trades.map((trade) => ({ ...trade, size: convertSize(spec, trade.size, trade.price, unit) }))
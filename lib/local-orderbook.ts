@@ -0,0 +1,143 @@
+import type { Orderbook } from "@/types/trading"
+
+/**
+ * A single price level change: size 0 removes the level.
+ * Venues that checksum their books also pass the price/size strings exactly as sent.
+ */
+export type LevelUpdate = [price: number, size: number, text?: [price: string, size: string]]
+
+/**
+ * Normalized book message produced by the venue parsers.
+ * Snapshots replace the local book, deltas are applied on top of it.
+ */
+export interface BookUpdate {
+  action: "snapshot" | "delta"
+  bids: LevelUpdate[]
+  asks: LevelUpdate[]
+  /** Exchange sequence numbers used for continuity checks, when the venue provides them */
+  sequence?: BookSequence
+  /** Venue's own publish time in epoch ms, when the message carries one */
+  exchangeTimestamp?: number
+  /** Matching engine time in epoch ms (Bybit `cts`) */
+  matchTimestamp?: number
+}
+
+/**
+ * Venue sequencing of a book update.
+ * `id` is the update/change id, `prevId` the id the venue says it follows,
+ * and `crossSeq` an additional monotonic sequence (Bybit `seq`).
+ */
+export interface BookSequence {
+  id: number
+  prevId?: number
+  crossSeq?: number
+}
+
+/** Number of levels per side published to the UI */
+export const DEFAULT_PUBLISH_DEPTH = 25
+
+/** Upper bound on levels per side published to the UI, whatever the channel maintains */
+export const MAX_PUBLISH_DEPTH = 200
+
+export interface LocalOrderbook {
+  /** Apply a snapshot or delta update */
+  apply: (update: BookUpdate) => void
+  /** Drop all levels, e.g. before a resubscribe */
+  clear: () => void
+  /** True until the first snapshot has been applied */
+  isEmpty: () => boolean
+  /** Drop levels beyond the given depth on both sides */
+  truncate: (depth: number) => void
+  /** Read the top levels of one side including their original strings */
+  getLevels: (side: "bids" | "asks", depth: number) => LevelUpdate[]
+  /** Build an immutable Orderbook view of the top levels */
+  toOrderbook: (depth?: number) => Orderbook
+}
+
+/**
+ * Find the index of a price in a sorted side, or the insertion point if absent.
+ * Bids are kept descending and asks ascending.
+ */
+const findLevel = (levels: LevelUpdate[], price: number, descending: boolean): { index: number; found: boolean } => {
+  let low = 0
+  let high = levels.length - 1
+
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    const midPrice = levels[mid][0]
+    if (midPrice === price) return { index: mid, found: true }
+
+    const goRight = descending ? midPrice > price : midPrice < price
+    if (goRight) {
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return { index: low, found: false }
+}
+
+const isValidLevel = ([price, size]: LevelUpdate) => Number.isFinite(price) && Number.isFinite(size) && price > 0
+
+/**
+ * Insert, update or delete (size 0) a level while keeping the side sorted
+ */
+const applyLevel = (levels: LevelUpdate[], level: LevelUpdate, descending: boolean) => {
+  const [price, size] = level
+  const { index, found } = findLevel(levels, price, descending)
+
+  if (size <= 0) {
+    if (found) levels.splice(index, 1)
+  } else if (found) {
+    levels[index] = level
+  } else {
+    levels.splice(index, 0, level)
+  }
+}
+
+/**
+ * Create a local order book that maintains full depth from snapshot + delta streams
+ */
+export function createLocalOrderbook(): LocalOrderbook {
+  let bids: LevelUpdate[] = []
+  let asks: LevelUpdate[] = []
+  let hasSnapshot = false
+
+  const apply = (update: BookUpdate) => {
+    if (update.action === "snapshot") {
+      bids = update.bids.filter((level) => isValidLevel(level) && level[1] > 0).sort((a, b) => b[0] - a[0])
+      asks = update.asks.filter((level) => isValidLevel(level) && level[1] > 0).sort((a, b) => a[0] - b[0])
+      hasSnapshot = true
+      return
+    }
+
+    // Deltas before the first snapshot cannot be placed in context
+    if (!hasSnapshot) return
+
+    update.bids.filter(isValidLevel).forEach((level) => applyLevel(bids, level, true))
+    update.asks.filter(isValidLevel).forEach((level) => applyLevel(asks, level, false))
+  }
+
+  const clear = () => {
+    bids = []
+    asks = []
+    hasSnapshot = false
+  }
+
+  const toOrderbook = (depth = DEFAULT_PUBLISH_DEPTH): Orderbook => ({
+    bids: bids.slice(0, depth).map(([price, size]) => [price, size]),
+    asks: asks.slice(0, depth).map(([price, size]) => [price, size]),
+    timestamp: Date.now(),
+    source: "live",
+  })
+
+  const truncate = (depth: number) => {
+    bids.length = Math.min(bids.length, depth)
+    asks.length = Math.min(asks.length, depth)
+  }
+
+  const getLevels = (side: "bids" | "asks", depth: number) => (side === "bids" ? bids : asks).slice(0, depth)
+
+  return { apply, clear, isEmpty: () => !hasSnapshot, truncate, getLevels, toOrderbook }
+}
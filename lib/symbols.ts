@@ -0,0 +1,7 @@
+import type { Symbol } from "@/types/trading"
+
+/** Trading pairs offered in the UI; whether a venue lists one is up to the instrument registry */
+export const SYMBOLS: Symbol[] = ["BTC-USD", "ETH-USD", "BTC-USDT", "ETH-USDT"]
+
+/** Whether a string is a BASE-QUOTE pair such as BTC-USD */
+export const isSymbol = (value: string): value is Symbol => /^[A-Z0-9]+-[A-Z0-9]+$/.test(value)
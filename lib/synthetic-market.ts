@@ -0,0 +1,399 @@
+import type { Orderbook } from "@/types/trading"
+
+/** Market conditions the synthetic generator can simulate */
+export type MarketRegime = "calm" | "trending" | "high-volatility" | "thin-liquidity" | "flash-crash"
+
+export const MARKET_REGIMES: MarketRegime[] = ["calm", "trending", "high-volatility", "thin-liquidity", "flash-crash"]
+
+export const isMarketRegime = (value: string): value is MarketRegime => (MARKET_REGIMES as string[]).includes(value)
+
+/**
+ * Order flow of a regime. Rates are expected events per step; a step stands for roughly 100ms of trading.
+ */
+export interface RegimeParameters {
+  /** Mean log return of the fair price per step */
+  drift: number
+  /** Standard deviation of the fair price log return per step */
+  volatility: number
+  /** Limit order arrivals per step */
+  arrivals: number
+  /** Share of resting levels partly or fully cancelled per step; with arrivals it sets the book's depth */
+  cancelRate: number
+  /** Market orders per step */
+  trades: number
+  /** Mean size of limit and market orders */
+  orderSize: number
+  /** Mean distance of new limit orders from the fair price, in ticks */
+  placementTicks: number
+  /** Levels per side the book starts with */
+  initialLevels: number
+}
+
+export const REGIME_PARAMETERS: Record<MarketRegime, RegimeParameters> = {
+  calm: {
+    drift: 0,
+    volatility: 0.00001,
+    arrivals: 10,
+    cancelRate: 0.05,
+    trades: 1,
+    orderSize: 1,
+    placementTicks: 8,
+    initialLevels: 40,
+  },
+  trending: {
+    drift: 0.000003,
+    volatility: 0.00002,
+    arrivals: 10,
+    cancelRate: 0.05,
+    trades: 2,
+    orderSize: 1,
+    placementTicks: 8,
+    initialLevels: 40,
+  },
+  "high-volatility": {
+    drift: 0,
+    volatility: 0.0001,
+    arrivals: 12,
+    cancelRate: 0.08,
+    trades: 4,
+    orderSize: 0.8,
+    placementTicks: 20,
+    initialLevels: 40,
+  },
+  "thin-liquidity": {
+    drift: 0,
+    volatility: 0.00003,
+    arrivals: 2,
+    cancelRate: 0.08,
+    trades: 0.6,
+    orderSize: 0.2,
+    placementTicks: 25,
+    initialLevels: 12,
+  },
+  // Calm flow until a crash: see FLASH_CRASH for the crash itself
+  "flash-crash": {
+    drift: 0,
+    volatility: 0.00001,
+    arrivals: 10,
+    cancelRate: 0.05,
+    trades: 1,
+    orderSize: 1,
+    placementTicks: 8,
+    initialLevels: 40,
+  },
+}
+
+/** Shape of the flash-crash regime's crash and partial recovery */
+const FLASH_CRASH = {
+  /** Steps of calm trading before a crash can start */
+  warmupSteps: 50,
+  /** Chance per step that the crash starts once warmed up; it happens once per session */
+  probability: 0.01,
+  /** Fair price log return per step while crashing, about -7% in total */
+  crashDrift: -0.003,
+  crashSteps: 25,
+  /** Fair price log return per step while recovering, retracing about half the drop */
+  recoveryDrift: 0.0007,
+  recoverySteps: 50,
+}
+
+/** Levels beyond this many ticks from the touch are dropped */
+const MAX_LEVEL_DISTANCE_TICKS = 400
+
+/** Smallest resting size; anything below is treated as fully cancelled or filled */
+const MIN_SIZE = 0.0001
+
+export interface Random {
+  /** Uniform in [0, 1) */
+  next: () => number
+  /** Standard normal */
+  normal: () => number
+  /** Exponential with the given mean */
+  exponential: (mean: number) => number
+  /** Poisson count with the given mean */
+  poisson: (mean: number) => number
+}
+
+/**
+ * Seeded pseudo-random source (mulberry32), so the same seed always produces the same session
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const normal = () => {
+    // Box-Muller; 1 - next() keeps the logarithm finite
+    const u = 1 - next()
+    const v = next()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+
+  const exponential = (mean: number) => -Math.log(1 - next()) * mean
+
+  const poisson = (mean: number) => {
+    const limit = Math.exp(-mean)
+    let count = 0
+    let product = next()
+    while (product > limit) {
+      count++
+      product *= next()
+    }
+    return count
+  }
+
+  return { next, normal, exponential, poisson }
+}
+
+/**
+ * Mix a string into a seed (FNV-1a), e.g. to give every venue its own reproducible stream
+ */
+export const deriveSeed = (seed: number, key: string): number => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+/** One fill of a market order against a resting level */
+export interface SyntheticTrade {
+  price: number
+  size: number
+  /** Aggressor side */
+  side: "buy" | "sell"
+}
+
+export interface SyntheticMarketOptions {
+  seed: number
+  regime: MarketRegime
+  basePrice: number
+  tickSize: number
+  /** Called for every fill, e.g. to publish a trade tape */
+  onTrade?: (trade: SyntheticTrade) => void
+}
+
+export interface SyntheticMarket {
+  /** Simulate the given number of steps of order flow */
+  step: (steps?: number) => void
+  /** Top of the book as a mock Orderbook */
+  toOrderbook: (depth?: number) => Orderbook
+  /** Mid price, null while a side is empty */
+  midPrice: () => number | null
+  regime: () => MarketRegime
+  /** Switch regimes without resetting the book */
+  setRegime: (regime: MarketRegime) => void
+  /** Steps simulated so far */
+  steps: () => number
+}
+
+/**
+ * A persistent order book driven by limit order arrivals, cancels and market orders around a
+ * latent fair price. Fully determined by its seed and the sequence of calls, never by wall time.
+ */
+export function createSyntheticMarket({
+  seed,
+  regime,
+  basePrice,
+  tickSize,
+  onTrade,
+}: SyntheticMarketOptions): SyntheticMarket {
+  const random = createRandom(seed)
+  const priceDecimals = (String(tickSize).split(".")[1] ?? "").length
+  // Resting size per price, keyed by price in whole ticks
+  const bids = new Map<number, number>()
+  const asks = new Map<number, number>()
+
+  let currentRegime = regime
+  let logFair = Math.log(basePrice)
+  let stepCount = 0
+  // Remaining steps of the flash crash phases, 0 when inactive
+  let crashRemaining = 0
+  let recoveryRemaining = 0
+  let crashed = false
+
+  const fairTick = () => Math.exp(logFair) / tickSize
+  const bestBid = () => (bids.size > 0 ? Math.max(...bids.keys()) : null)
+  const bestAsk = () => (asks.size > 0 ? Math.min(...asks.keys()) : null)
+  const midTick = () => {
+    const bid = bestBid()
+    const ask = bestAsk()
+    return bid === null || ask === null ? null : (bid + ask) / 2
+  }
+
+  const roundSize = (size: number) => Math.round(size * 10000) / 10000
+
+  const toPrice = (tick: number) => Number((tick * tickSize).toFixed(priceDecimals))
+
+  const addLiquidity = (side: Map<number, number>, tick: number, size: number) => {
+    const total = roundSize((side.get(tick) ?? 0) + size)
+    if (total >= MIN_SIZE) side.set(tick, total)
+  }
+
+  /**
+   * Walk the opposite side with a market order, removing the liquidity it takes
+   */
+  const executeTrade = (isBuy: boolean, size: number) => {
+    const side = isBuy ? asks : bids
+    const ticks = [...side.keys()].sort((a, b) => (isBuy ? a - b : b - a))
+    let remaining = size
+
+    for (const tick of ticks) {
+      if (remaining <= 0) break
+      const available = side.get(tick)!
+      const filled = Math.min(available, remaining)
+      remaining -= filled
+      if (onTrade && filled >= MIN_SIZE) {
+        onTrade({ price: toPrice(tick), size: roundSize(filled), side: isBuy ? "buy" : "sell" })
+      }
+      if (available - filled < MIN_SIZE) side.delete(tick)
+      else side.set(tick, roundSize(available - filled))
+    }
+  }
+
+  /**
+   * Place a limit order around the fair price. Orders priced through the opposite touch trade instead,
+   * which is what pulls the book after the fair price.
+   */
+  const placeOrder = (isBid: boolean, parameters: RegimeParameters) => {
+    const distance = Math.floor(random.exponential(parameters.placementTicks))
+    const size = random.exponential(parameters.orderSize) + MIN_SIZE
+
+    if (isBid) {
+      const ask = bestAsk()
+      const tick = Math.floor(fairTick()) - distance
+      if (ask !== null && tick >= ask) executeTrade(true, size)
+      else addLiquidity(bids, tick, size)
+    } else {
+      const bid = bestBid()
+      const tick = Math.ceil(fairTick()) + distance
+      if (bid !== null && tick <= bid) executeTrade(false, size)
+      else addLiquidity(asks, tick, size)
+    }
+  }
+
+  const cancelOrder = (side: Map<number, number>, parameters: RegimeParameters) => {
+    if (side.size === 0) return
+
+    const ticks = [...side.keys()]
+    const tick = ticks[Math.floor(random.next() * ticks.length)]
+    const remaining = roundSize(side.get(tick)! - random.exponential(parameters.orderSize))
+    if (remaining < MIN_SIZE) side.delete(tick)
+    else side.set(tick, remaining)
+  }
+
+  /**
+   * Drop levels far from the touch so the book does not grow without bound
+   */
+  const trimBook = () => {
+    const bid = bestBid()
+    const ask = bestAsk()
+    if (bid !== null) bids.forEach((_, tick) => bid - tick > MAX_LEVEL_DISTANCE_TICKS && bids.delete(tick))
+    if (ask !== null) asks.forEach((_, tick) => tick - ask > MAX_LEVEL_DISTANCE_TICKS && asks.delete(tick))
+  }
+
+  /**
+   * Drift for this step, driving the flash crash phases
+   */
+  const currentDrift = (parameters: RegimeParameters) => {
+    if (currentRegime !== "flash-crash") return parameters.drift
+
+    if (crashRemaining > 0) {
+      crashRemaining--
+      if (crashRemaining === 0) recoveryRemaining = FLASH_CRASH.recoverySteps
+      return FLASH_CRASH.crashDrift
+    }
+    if (recoveryRemaining > 0) {
+      recoveryRemaining--
+      return FLASH_CRASH.recoveryDrift
+    }
+    if (!crashed && stepCount >= FLASH_CRASH.warmupSteps && random.next() < FLASH_CRASH.probability) {
+      crashed = true
+      crashRemaining = FLASH_CRASH.crashSteps
+    }
+    return parameters.drift
+  }
+
+  const stepOnce = () => {
+    const parameters = REGIME_PARAMETERS[currentRegime]
+    const crashing = crashRemaining > 0
+    logFair += currentDrift(parameters) + parameters.volatility * random.normal()
+
+    // During a crash bids are pulled and sellers hit whatever is left
+    const bidArrivals = random.poisson(crashing ? parameters.arrivals / 6 : parameters.arrivals / 2)
+    const askArrivals = random.poisson(parameters.arrivals / 2)
+    const bidCancels = random.poisson(bids.size * parameters.cancelRate * (crashing ? 4 : 1))
+    const askCancels = random.poisson(asks.size * parameters.cancelRate)
+    const trades = random.poisson(crashing ? parameters.trades * 5 : parameters.trades)
+
+    for (let i = 0; i < bidArrivals; i++) placeOrder(true, parameters)
+    for (let i = 0; i < askArrivals; i++) placeOrder(false, parameters)
+    for (let i = 0; i < bidCancels; i++) cancelOrder(bids, parameters)
+    for (let i = 0; i < askCancels; i++) cancelOrder(asks, parameters)
+
+    // Market orders lean towards the fair price: buyers when the book is below it, sellers when above
+    for (let i = 0; i < trades; i++) {
+      const mid = midTick()
+      const buyProbability = mid === null ? 0.5 : 1 / (1 + Math.exp((mid - fairTick()) / 2))
+      executeTrade(random.next() < buyProbability, random.exponential(parameters.orderSize * 1.5))
+    }
+
+    // A side emptied by trades or cancels is refilled just behind the opposite touch so the book stays two-sided
+    if (bids.size === 0) {
+      addLiquidity(bids, Math.min(Math.floor(fairTick()), (bestAsk() ?? Infinity) - 1), parameters.orderSize)
+    }
+    if (asks.size === 0) {
+      addLiquidity(asks, Math.max(Math.ceil(fairTick()), (bestBid() ?? -Infinity) + 1), parameters.orderSize)
+    }
+
+    trimBook()
+    stepCount++
+  }
+
+  const seedBook = () => {
+    const parameters = REGIME_PARAMETERS[currentRegime]
+    const fair = fairTick()
+    for (let i = 0; i < parameters.initialLevels; i++) {
+      addLiquidity(bids, Math.floor(fair) - i, random.exponential(parameters.orderSize) + MIN_SIZE)
+      addLiquidity(asks, Math.floor(fair) + 1 + i, random.exponential(parameters.orderSize) + MIN_SIZE)
+    }
+  }
+
+  const toLevels = (side: Map<number, number>, descending: boolean, depth: number): [number, number][] =>
+    [...side.entries()]
+      .sort((a, b) => (descending ? b[0] - a[0] : a[0] - b[0]))
+      .slice(0, depth)
+      .map(([tick, size]) => [toPrice(tick), size])
+
+  seedBook()
+
+  return {
+    step: (steps = 1) => {
+      for (let i = 0; i < steps; i++) stepOnce()
+    },
+    toOrderbook: (depth = 25) => ({
+      bids: toLevels(bids, true, depth),
+      asks: toLevels(asks, false, depth),
+      timestamp: Date.now(),
+      source: "mock",
+    }),
+    midPrice: () => {
+      const mid = midTick()
+      return mid === null ? null : mid * tickSize
+    },
+    regime: () => currentRegime,
+    setRegime: (next) => {
+      currentRegime = next
+      crashRemaining = recoveryRemaining = 0
+      crashed = false
+    },
+    steps: () => stepCount,
+  }
+}
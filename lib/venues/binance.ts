@@ -0,0 +1,141 @@
+import type { LevelUpdate } from "@/lib/local-orderbook"
+import type { InstrumentListing, VenueAdapter } from "./types"
+
+/** REST base for depth snapshots, overridable so a local stand-in can serve it */
+export const BINANCE_REST_URL = process.env.NEXT_PUBLIC_BINANCE_REST_URL || "https://api.binance.com"
+
+/** Levels requested in the REST depth snapshot */
+const SNAPSHOT_LIMIT = 1000
+
+/** Quotes a USD pair is looked up under, since Binance spot trades against stablecoins */
+const USD_QUOTES = ["USDT", "USDC"]
+
+const filterValue = (instrument: any, filterType: string, field: string) =>
+  Number(instrument.filters?.find((filter: any) => filter.filterType === filterType)?.[field])
+
+const spot = (base: string, quote: string, tickSize: number, lotSize: number, minSize: number): InstrumentListing => ({
+  instrument: `${base}${quote}`,
+  kind: "spot",
+  base,
+  quote,
+  tickSize,
+  lotSize,
+  minSize,
+  sizeUnit: "base",
+  contractValue: 1,
+  contractCurrency: base,
+})
+
+const toLevels = (levels: [string, string][]): LevelUpdate[] =>
+  levels.map(([price, size]) => [Number(price), Number(size)])
+
+const streamName = (instrument: string, channel: string) =>
+  channel === "1000ms" ? `${instrument.toLowerCase()}@depth` : `${instrument.toLowerCase()}@depth@${channel}`
+
+/**
+ * Binance spot diff-depth stream.
+ * The stream carries no snapshot: deltas are buffered until the REST `/depth` snapshot arrives,
+ * deltas with `u` <= `lastUpdateId` are dropped, and every applied delta must satisfy
+ * `U` <= last id + 1 <= `u`, which for consecutive deltas means `U` == previous `u` + 1.
+ */
+export const binanceAdapter: VenueAdapter = {
+  id: "Binance",
+  url: process.env.NEXT_PUBLIC_BINANCE_WS_URL || "wss://stream.binance.com:9443/ws",
+
+  // Instruments are BASEQUOTE without a dash. The full exchange info is several megabytes, so only the
+  // candidate pairs for our symbols are requested; one unknown pair fails a whole batch, hence one request each.
+  instruments: {
+    fetch: async (symbols) => {
+      const candidates = [
+        ...new Set(
+          symbols.flatMap((symbol) => {
+            const [base, quote] = symbol.split("-")
+            return (quote === "USD" ? USD_QUOTES : [quote]).map((candidate) => `${base}${candidate}`)
+          }),
+        ),
+      ]
+      const results = await Promise.allSettled(
+        candidates.map(async (candidate) => {
+          const response = await fetch(`${BINANCE_REST_URL}/api/v3/exchangeInfo?symbol=${candidate}`)
+          if (!response.ok) {
+            throw new Error(`Instruments request failed with status ${response.status}`)
+          }
+          return (await response.json()).symbols as any[]
+        }),
+      )
+
+      return results
+        .flatMap((result) => (result.status === "fulfilled" ? result.value : []))
+        .filter((instrument) => instrument.status === "TRADING")
+        .map((instrument) =>
+          spot(
+            instrument.baseAsset,
+            instrument.quoteAsset,
+            filterValue(instrument, "PRICE_FILTER", "tickSize"),
+            filterValue(instrument, "LOT_SIZE", "stepSize"),
+            filterValue(instrument, "LOT_SIZE", "minQty"),
+          ),
+        )
+    },
+    fallback: [spot("BTC", "USDT", 0.01, 0.00001, 0.00001), spot("ETH", "USDT", 0.01, 0.0001, 0.0001)],
+  },
+
+  // Both update speeds are bounded by the REST snapshot depth
+  channels: [
+    { id: "100ms", label: "Diff depth 100ms", depth: SNAPSHOT_LIMIT },
+    { id: "1000ms", label: "Diff depth 1000ms", depth: SNAPSHOT_LIMIT },
+  ],
+  defaultChannel: "100ms",
+
+  subscribe: (instruments, channel) => ({
+    method: "SUBSCRIBE",
+    params: instruments.map((instrument) => streamName(instrument, channel)),
+    id: Date.now(),
+  }),
+
+  unsubscribe: (instruments, channel) => ({
+    method: "UNSUBSCRIBE",
+    params: instruments.map((instrument) => streamName(instrument, channel)),
+    id: Date.now(),
+  }),
+
+  // The server sends protocol-level pings which the browser answers itself
+
+  isSubscriptionAck: (data) => data.result === null && data.id !== undefined,
+
+  errorOf: (data) => (data.error ? `${data.error.msg} (${data.error.code})` : null),
+
+  instrumentOf: (data) => data.s ?? null,
+
+  parseMessage: (data) => {
+    if (data.e !== "depthUpdate") return null
+
+    return {
+      action: "delta",
+      bids: toLevels(data.b || []),
+      asks: toLevels(data.a || []),
+      // prevId is the last update id this event builds on
+      sequence: { id: data.u, prevId: data.U - 1 },
+      exchangeTimestamp: typeof data.E === "number" ? data.E : undefined,
+    }
+  },
+
+  isStale: (last, next) => next.id <= last.id,
+
+  isContinuous: (last, next) => next.prevId !== undefined && next.prevId <= last.id && next.id > last.id,
+
+  fetchSnapshot: async (instrument) => {
+    const response = await fetch(`${BINANCE_REST_URL}/api/v3/depth?symbol=${instrument}&limit=${SNAPSHOT_LIMIT}`)
+    if (!response.ok) {
+      throw new Error(`Depth snapshot request failed with status ${response.status}`)
+    }
+
+    const snapshot = await response.json()
+    return {
+      action: "snapshot",
+      bids: toLevels(snapshot.bids || []),
+      asks: toLevels(snapshot.asks || []),
+      sequence: { id: snapshot.lastUpdateId },
+    }
+  },
+}
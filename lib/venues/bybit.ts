@@ -0,0 +1,151 @@
+import type { LevelUpdate } from "@/lib/local-orderbook"
+import type { InstrumentListing, TickerUpdate, VenueAdapter } from "./types"
+
+const spot = (base: string, quote: string, tickSize: number, lotSize: number, minSize: number): InstrumentListing => ({
+  instrument: `${base}${quote}`,
+  kind: "spot",
+  base,
+  quote,
+  tickSize,
+  lotSize,
+  minSize,
+  sizeUnit: "base",
+  contractValue: 1,
+  contractCurrency: base,
+})
+
+const toLevels = (levels: [string, string][]): LevelUpdate[] =>
+  levels.map(([price, size]) => [Number(price), Number(size)])
+
+/**
+ * Bybit v5 spot `orderbook.{depth}` topics: snapshot then deltas sequenced by `u` and cross sequence `seq`.
+ * The channel id is the depth; level 1 pushes snapshots only.
+ */
+export const bybitAdapter: VenueAdapter = {
+  id: "Bybit",
+  url: process.env.NEXT_PUBLIC_BYBIT_WS_URL || "wss://stream.bybit.com/v5/public/spot",
+
+  // Spot instruments are BASEQUOTE without a dash; USD pairs resolve to USDT
+  instruments: {
+    fetch: async () => {
+      const response = await fetch("https://api.bybit.com/v5/market/instruments-info?category=spot")
+      if (!response.ok) {
+        throw new Error(`Instruments request failed with status ${response.status}`)
+      }
+
+      const { result } = await response.json()
+      return (result?.list || [])
+        .filter((instrument: any) => instrument.status === "Trading")
+        .map((instrument: any) =>
+          spot(
+            instrument.baseCoin,
+            instrument.quoteCoin,
+            Number(instrument.priceFilter?.tickSize),
+            Number(instrument.lotSizeFilter?.basePrecision),
+            Number(instrument.lotSizeFilter?.minOrderQty),
+          ),
+        )
+    },
+    fallback: [spot("BTC", "USDT", 0.01, 0.000001, 0.000048), spot("ETH", "USDT", 0.01, 0.00001, 0.00062)],
+  },
+
+  channels: [
+    { id: "1", label: "Level 1 (10ms)", depth: 1 },
+    { id: "50", label: "50 levels (20ms)", depth: 50 },
+    { id: "200", label: "200 levels (200ms)", depth: 200 },
+  ],
+  defaultChannel: "50",
+
+  subscribe: (instruments, channel) => ({
+    op: "subscribe",
+    args: instruments.map((instrument) => `orderbook.${channel}.${instrument}`),
+  }),
+
+  unsubscribe: (instruments, channel) => ({
+    op: "unsubscribe",
+    args: instruments.map((instrument) => `orderbook.${channel}.${instrument}`),
+  }),
+
+  heartbeat: {
+    intervalMs: 30000,
+    message: () => JSON.stringify({ op: "ping" }),
+    isReply: (data) => data.op === "pong" || data.ret_msg === "pong",
+  },
+
+  isSubscriptionAck: (data) => data.success && data.op === "subscribe",
+
+  errorOf: (data) => (data.success === false ? data.ret_msg || `${data.op} rejected` : null),
+
+  // Topics end with the instrument, e.g. orderbook.50.BTCUSDT or publicTrade.BTCUSDT
+  instrumentOf: (data) => (typeof data.topic === "string" ? data.topic.split(".").pop() : null),
+
+  parseMessage: (data) => {
+    // Bybit sends type "snapshot" once, then "delta" with changed levels
+    if (!data.topic?.startsWith("orderbook") || !data.data) return null
+
+    const orderbookData = data.data
+    return {
+      action: data.type === "delta" ? "delta" : "snapshot",
+      bids: toLevels(orderbookData.b || []),
+      asks: toLevels(orderbookData.a || []),
+      sequence:
+        typeof orderbookData.u === "number"
+          ? {
+              id: orderbookData.u,
+              crossSeq: typeof orderbookData.seq === "number" ? orderbookData.seq : undefined,
+            }
+          : undefined,
+      // ts is when Bybit's system published the update, cts when the matching engine produced it
+      exchangeTimestamp: typeof data.ts === "number" ? data.ts : undefined,
+      matchTimestamp: typeof data.cts === "number" ? data.cts : undefined,
+    }
+  },
+
+  // Perpetuals are on the linear socket; deltas only carry the fields that changed
+  derivatives: {
+    url: process.env.NEXT_PUBLIC_BYBIT_LINEAR_WS_URL || "wss://stream.bybit.com/v5/public/linear",
+    formatInstrument: (symbol) => `${symbol.split("-")[0]}USDT`,
+    openInterestUnit: "base",
+    subscribe: (instrument) => ({ op: "subscribe", args: [`tickers.${instrument}`] }),
+    parse: (data) => {
+      if (!data.topic?.startsWith("tickers.") || !data.data) return null
+
+      const ticker = data.data
+      const update: TickerUpdate = {}
+      if (ticker.markPrice !== undefined) update.markPrice = Number(ticker.markPrice)
+      if (ticker.indexPrice !== undefined) update.indexPrice = Number(ticker.indexPrice)
+      if (ticker.fundingRate !== undefined) update.fundingRate = Number(ticker.fundingRate)
+      if (ticker.nextFundingTime !== undefined) update.nextFundingTime = Number(ticker.nextFundingTime)
+      if (ticker.openInterest !== undefined) update.openInterest = Number(ticker.openInterest)
+      return update
+    },
+  },
+
+  // `S` is the taker side
+  trades: {
+    subscribe: (instruments) => ({
+      op: "subscribe",
+      args: instruments.map((instrument) => `publicTrade.${instrument}`),
+    }),
+    unsubscribe: (instruments) => ({
+      op: "unsubscribe",
+      args: instruments.map((instrument) => `publicTrade.${instrument}`),
+    }),
+    parse: (data) => {
+      if (!data.topic?.startsWith("publicTrade.") || !Array.isArray(data.data)) return null
+
+      return data.data.map((trade: any) => ({
+        id: String(trade.i),
+        price: Number(trade.p),
+        size: Number(trade.v),
+        side: trade.S === "Sell" ? "sell" : "buy",
+        timestamp: trade.T,
+      }))
+    },
+  },
+
+  // `u` must advance by one with an increasing `seq`
+  isContinuous: (last, next) =>
+    next.id === last.id + 1 &&
+    (next.crossSeq === undefined || last.crossSeq === undefined || next.crossSeq > last.crossSeq),
+}
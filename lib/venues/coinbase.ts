@@ -0,0 +1,95 @@
+import type { LevelUpdate } from "@/lib/local-orderbook"
+import type { InstrumentListing, VenueAdapter } from "./types"
+
+interface Level2Update {
+  side: "bid" | "offer"
+  price_level: string
+  new_quantity: string
+}
+
+const spot = (instrument: string, tickSize: number, lotSize: number, minSize: number): InstrumentListing => {
+  const [base, quote] = instrument.split("-")
+  return {
+    instrument,
+    kind: "spot",
+    base,
+    quote,
+    tickSize,
+    lotSize,
+    minSize,
+    sizeUnit: "base",
+    contractValue: 1,
+    contractCurrency: base,
+  }
+}
+
+const toLevel = (update: Level2Update): LevelUpdate => [Number(update.price_level), Number(update.new_quantity)]
+
+/**
+ * Coinbase Advanced Trade `level2` channel: a "snapshot" event, then "update" events
+ * carrying the new absolute quantity per side and price (0 removes the level).
+ * The `heartbeats` channel keeps the socket alive for products that rarely trade.
+ */
+export const coinbaseAdapter: VenueAdapter = {
+  id: "Coinbase",
+  url: process.env.NEXT_PUBLIC_COINBASE_WS_URL || "wss://advanced-trade-ws.coinbase.com",
+
+  // Product ids match our symbols natively (BTC-USD, BTC-USDT); the public market endpoint needs no API key
+  instruments: {
+    fetch: async () => {
+      const response = await fetch("https://api.coinbase.com/api/v3/brokerage/market/products?product_type=SPOT")
+      if (!response.ok) {
+        throw new Error(`Instruments request failed with status ${response.status}`)
+      }
+
+      const { products } = await response.json()
+      return (products || [])
+        .filter((product: any) => !product.trading_disabled && !product.is_disabled)
+        .map((product: any) =>
+          spot(
+            product.product_id,
+            Number(product.quote_increment),
+            Number(product.base_increment),
+            Number(product.base_min_size),
+          ),
+        )
+    },
+    fallback: [
+      spot("BTC-USD", 0.01, 0.00000001, 0.00000001),
+      spot("ETH-USD", 0.01, 0.00000001, 0.00000001),
+      spot("BTC-USDT", 0.01, 0.00000001, 0.00000001),
+      spot("ETH-USDT", 0.01, 0.00000001, 0.00000001),
+    ],
+  },
+
+  // level2 is always the full book
+  channels: [{ id: "level2", label: "Level 2 (full book)" }],
+  defaultChannel: "level2",
+
+  subscribe: (instruments) => [
+    { type: "subscribe", product_ids: instruments, channel: "level2" },
+    { type: "subscribe", product_ids: instruments, channel: "heartbeats" },
+  ],
+
+  // Only the book is resubscribed, the heartbeats subscription stays in place
+  unsubscribe: (instruments) => ({ type: "unsubscribe", product_ids: instruments, channel: "level2" }),
+
+  isSubscriptionAck: (data) => data.channel === "subscriptions",
+
+  errorOf: (data) => (data.type === "error" ? data.message || "Request rejected" : null),
+
+  instrumentOf: (data) => (Array.isArray(data.events) ? (data.events[0]?.product_id ?? null) : null),
+
+  parseMessage: (data) => {
+    if (data.channel !== "l2_data" || !Array.isArray(data.events) || data.events.length === 0) return null
+
+    const updates: Level2Update[] = data.events.flatMap((event: any) => event.updates || [])
+    return {
+      action: data.events.some((event: any) => event.type === "snapshot") ? "snapshot" : "delta",
+      bids: updates.filter((update) => update.side === "bid").map(toLevel),
+      asks: updates.filter((update) => update.side === "offer").map(toLevel),
+      // ISO timestamp with nanoseconds, parsed to millisecond precision
+      exchangeTimestamp: Date.parse(data.timestamp) || undefined,
+    }
+  },
+}
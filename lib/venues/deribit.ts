@@ -0,0 +1,189 @@
+import type { LevelUpdate } from "@/lib/local-orderbook"
+import type { InstrumentListing, VenueAdapter } from "./types"
+
+/**
+ * Raw book channels send [action, price, amount] entries where "delete" removes the level,
+ * grouped channels send plain [price, amount] pairs
+ */
+const toLevels = (entries: any[]): LevelUpdate[] =>
+  entries.map((entry) =>
+    entry.length === 3
+      ? [Number(entry[1]), entry[0] === "delete" ? 0 : Number(entry[2])]
+      : [Number(entry[0]), Number(entry[1])],
+  )
+
+/** REST base for instrument listings, next to the WebSocket endpoint */
+const DERIBIT_REST_URL = "https://www.deribit.com/api/v2"
+
+/**
+ * A Deribit perpetual. Inverse ("reversed") perpetuals count sizes in USD with a contract size in USD;
+ * linear ones count them in the base currency.
+ */
+const toListing = (instrument: any): InstrumentListing => {
+  const inverse = instrument.instrument_type === "reversed"
+  return {
+    instrument: instrument.instrument_name,
+    kind: inverse ? "inverse" : "linear",
+    base: instrument.base_currency,
+    quote: instrument.quote_currency,
+    tickSize: instrument.tick_size,
+    lotSize: instrument.contract_size,
+    minSize: instrument.min_trade_amount,
+    sizeUnit: inverse ? "quote" : "base",
+    contractValue: instrument.contract_size,
+    contractCurrency: inverse ? instrument.quote_currency : instrument.base_currency,
+  }
+}
+
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000
+
+/**
+ * Deribit v2 JSON-RPC `book.{instrument}.{interval}` channels: snapshot then changes chained by change ids.
+ * `100ms` aggregates changes; `raw` is not offered because it requires an authorized connection.
+ */
+export const deribitAdapter: VenueAdapter = {
+  id: "Deribit",
+  url: process.env.NEXT_PUBLIC_DERIBIT_WS_URL || "wss://www.deribit.com/ws/api/v2",
+
+  // Books are perpetuals: BTC-USD resolves to the inverse BTC-PERPETUAL, and USDT pairs fall back to it
+  // unless a linear perpetual is listed. Instruments are listed per currency.
+  instruments: {
+    fetch: async (symbols) => {
+      const currencies = [...new Set(symbols.map((symbol) => symbol.split("-")[0]))]
+      const listings = await Promise.all(
+        currencies.map(async (currency) => {
+          const response = await fetch(`${DERIBIT_REST_URL}/public/get_instruments?currency=${currency}&kind=future`)
+          if (!response.ok) {
+            throw new Error(`Instruments request failed with status ${response.status}`)
+          }
+
+          const { result } = await response.json()
+          return (result || []).filter((instrument: any) => instrument.settlement_period === "perpetual").map(toListing)
+        }),
+      )
+      return listings.flat()
+    },
+    fallback: [
+      toListing({
+        instrument_name: "BTC-PERPETUAL",
+        instrument_type: "reversed",
+        base_currency: "BTC",
+        quote_currency: "USD",
+        tick_size: 0.5,
+        contract_size: 10,
+        min_trade_amount: 10,
+      }),
+      toListing({
+        instrument_name: "ETH-PERPETUAL",
+        instrument_type: "reversed",
+        base_currency: "ETH",
+        quote_currency: "USD",
+        tick_size: 0.05,
+        contract_size: 1,
+        min_trade_amount: 1,
+      }),
+    ],
+  },
+
+  channels: [{ id: "100ms", label: "100ms grouped" }],
+  defaultChannel: "100ms",
+
+  subscribe: (instruments, channel) => ({
+    jsonrpc: "2.0",
+    method: "public/subscribe",
+    id: Date.now(),
+    params: { channels: instruments.map((instrument) => `book.${instrument}.${channel}`) },
+  }),
+
+  unsubscribe: (instruments, channel) => ({
+    jsonrpc: "2.0",
+    method: "public/unsubscribe",
+    id: Date.now(),
+    params: { channels: instruments.map((instrument) => `book.${instrument}.${channel}`) },
+  }),
+
+  heartbeat: {
+    intervalMs: 30000,
+    message: () => JSON.stringify({ jsonrpc: "2.0", method: "public/ping", id: Date.now() }),
+    isReply: (data) => data.result === "pong",
+  },
+
+  // public/subscribe answers with the list of subscribed channels
+  isSubscriptionAck: (data) => Array.isArray(data.result),
+
+  errorOf: (data) => (data.error ? `${data.error.message} (${data.error.code})` : null),
+
+  // Channels are {name}.{instrument}.{interval}
+  instrumentOf: (data) => (typeof data.params?.channel === "string" ? data.params.channel.split(".")[1] : null),
+
+  parseMessage: (data) => {
+    if (!data.params?.channel?.startsWith("book.") || !data.params.data) return null
+
+    const orderbookData = data.params.data
+    return {
+      action: orderbookData.type === "change" ? "delta" : "snapshot",
+      bids: toLevels(orderbookData.bids || []),
+      asks: toLevels(orderbookData.asks || []),
+      sequence:
+        typeof orderbookData.change_id === "number"
+          ? { id: orderbookData.change_id, prevId: orderbookData.prev_change_id }
+          : undefined,
+      exchangeTimestamp: typeof orderbookData.timestamp === "number" ? orderbookData.timestamp : undefined,
+    }
+  },
+
+  // Funding accrues continuously and settles every 8 hours at 00:00, 08:00 and 16:00 UTC;
+  // perpetual open interest is counted in USD
+  derivatives: {
+    formatInstrument: (symbol) => `${symbol.split("-")[0]}-PERPETUAL`,
+    openInterestUnit: "quote",
+    subscribe: (instrument) => ({
+      jsonrpc: "2.0",
+      method: "public/subscribe",
+      id: Date.now(),
+      params: { channels: [`ticker.${instrument}.100ms`] },
+    }),
+    parse: (data) => {
+      if (!data.params?.channel?.startsWith("ticker.") || !data.params.data) return null
+
+      const ticker = data.params.data
+      return {
+        markPrice: ticker.mark_price,
+        indexPrice: ticker.index_price,
+        fundingRate: ticker.funding_8h,
+        nextFundingTime: Math.ceil((ticker.timestamp ?? Date.now()) / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS,
+        openInterest: ticker.open_interest,
+      }
+    },
+  },
+
+  // `direction` is the taker side; the 100ms channel is public, raw would need authorization
+  trades: {
+    subscribe: (instruments) => ({
+      jsonrpc: "2.0",
+      method: "public/subscribe",
+      id: Date.now(),
+      params: { channels: instruments.map((instrument) => `trades.${instrument}.100ms`) },
+    }),
+    unsubscribe: (instruments) => ({
+      jsonrpc: "2.0",
+      method: "public/unsubscribe",
+      id: Date.now(),
+      params: { channels: instruments.map((instrument) => `trades.${instrument}.100ms`) },
+    }),
+    parse: (data) => {
+      if (!data.params?.channel?.startsWith("trades.") || !Array.isArray(data.params.data)) return null
+
+      return data.params.data.map((trade: any) => ({
+        id: String(trade.trade_id),
+        price: trade.price,
+        size: trade.amount,
+        side: trade.direction === "sell" ? "sell" : "buy",
+        timestamp: trade.timestamp,
+      }))
+    },
+  },
+
+  // Each change must name the previous change id
+  isContinuous: (last, next) => next.prevId === last.id,
+}
@@ -0,0 +1,52 @@
+import type { Venue } from "@/types/trading"
+import type { BookChannel, VenueAdapter } from "./types"
+import { okxAdapter } from "./okx"
+import { bybitAdapter } from "./bybit"
+import { deribitAdapter } from "./deribit"
+import { binanceAdapter } from "./binance"
+import { coinbaseAdapter } from "./coinbase"
+import { krakenAdapter } from "./kraken"
+
+export type { BookChannel, InstrumentListing, VenueAdapter } from "./types"
+
+/**
+ * Registry of supported exchanges keyed by venue id.
+ * The `Venue` union in types/trading.ts is derived from these keys.
+ */
+export const venueAdapters = {
+  OKX: okxAdapter,
+  Bybit: bybitAdapter,
+  Deribit: deribitAdapter,
+  Binance: binanceAdapter,
+  Coinbase: coinbaseAdapter,
+  Kraken: krakenAdapter,
+} satisfies Record<string, VenueAdapter>
+
+/** All registered venues in display order */
+export const VENUES = Object.keys(venueAdapters) as Venue[]
+
+export const getVenueAdapter = (venue: Venue): VenueAdapter => venueAdapters[venue]
+
+/**
+ * Look up a venue's book channel, falling back to its default for unknown ids
+ */
+export const getBookChannel = (venue: Venue, channelId?: string): BookChannel => {
+  const adapter = getVenueAdapter(venue)
+  return (
+    adapter.channels.find((channel) => channel.id === channelId) ||
+    adapter.channels.find((channel) => channel.id === adapter.defaultChannel) ||
+    adapter.channels[0]
+  )
+}
+
+/**
+ * Serialize a subscribe/unsubscribe request into the frames to send
+ */
+export const toFrames = (request: object | object[]): string[] =>
+  (Array.isArray(request) ? request : [request]).map((message) => JSON.stringify(message))
+
+/**
+ * Build a record with the same initial value for every registered venue
+ */
+export const createVenueRecord = <T>(value: T): Record<Venue, T> =>
+  Object.fromEntries(VENUES.map((venue) => [venue, value])) as Record<Venue, T>
@@ -0,0 +1,126 @@
+import type { LevelUpdate } from "@/lib/local-orderbook"
+import { computeKrakenChecksum } from "@/lib/checksum"
+import type { InstrumentSpec } from "@/types/trading"
+import type { InstrumentListing, VenueAdapter } from "./types"
+
+/** Depths the v2 book channel accepts; Kraken expects the local book to be truncated to the subscribed one */
+const KRAKEN_BOOK_DEPTHS = [10, 25, 100, 500, 1000]
+
+/** REST asset pairs still use Kraken's legacy asset codes, the v2 WebSocket API does not */
+const LEGACY_ASSETS: Record<string, string> = { XBT: "BTC", XDG: "DOGE" }
+
+const spot = (instrument: string, tickSize: number, lotSize: number, minSize: number): InstrumentListing => {
+  const [base, quote] = instrument.split("/")
+  return {
+    instrument,
+    kind: "spot",
+    base,
+    quote,
+    tickSize,
+    lotSize,
+    minSize,
+    sizeUnit: "base",
+    contractValue: 1,
+    contractCurrency: base,
+  }
+}
+
+/** Used when no instrument is known, e.g. replaying a capture of an unlisted pair */
+const DEFAULT_PRECISION = { priceDecimals: 2, sizeDecimals: 8 }
+
+/**
+ * The v2 API sends levels as JSON numbers, so the checksum strings are rebuilt at the pair's native
+ * price and quantity precision, which the instrument's tick and lot sizes carry
+ */
+const toLevels = (levels: { price: number; qty: number }[], spec?: InstrumentSpec): LevelUpdate[] => {
+  const { priceDecimals, sizeDecimals } = spec ?? DEFAULT_PRECISION
+  return levels.map(({ price, qty }) => [price, qty, [price.toFixed(priceDecimals), qty.toFixed(sizeDecimals)]])
+}
+
+const bookParams = (instruments: string[], channel: string) => ({
+  channel: "book",
+  symbol: instruments,
+  depth: Number(channel),
+})
+
+/**
+ * Kraken WebSocket v2 `book` channel: snapshot then updates, each carrying a CRC32
+ * over the top 10 levels per side
+ */
+export const krakenAdapter: VenueAdapter = {
+  id: "Kraken",
+  url: process.env.NEXT_PUBLIC_KRAKEN_WS_URL || "wss://ws.kraken.com/v2",
+
+  // Instruments are BASE/QUOTE with a slash
+  instruments: {
+    fetch: async () => {
+      const response = await fetch("https://api.kraken.com/0/public/AssetPairs")
+      if (!response.ok) {
+        throw new Error(`Instruments request failed with status ${response.status}`)
+      }
+
+      const { result } = await response.json()
+      return Object.values<any>(result || {})
+        .filter((pair) => pair.wsname && pair.status === "online")
+        .map((pair) =>
+          spot(
+            pair.wsname
+              .split("/")
+              .map((asset: string) => LEGACY_ASSETS[asset] ?? asset)
+              .join("/"),
+            Number(pair.tick_size),
+            10 ** -pair.lot_decimals,
+            Number(pair.ordermin),
+          ),
+        )
+    },
+    fallback: [
+      spot("BTC/USD", 0.1, 0.00000001, 0.00005),
+      spot("ETH/USD", 0.01, 0.00000001, 0.002),
+      spot("BTC/USDT", 0.1, 0.00000001, 0.00005),
+      spot("ETH/USDT", 0.01, 0.00000001, 0.002),
+    ],
+  },
+
+  // The channel id is the subscribed depth
+  channels: KRAKEN_BOOK_DEPTHS.map((depth) => ({ id: String(depth), label: `${depth} levels`, depth })),
+  defaultChannel: "25",
+
+  subscribe: (instruments, channel) => ({
+    method: "subscribe",
+    params: { ...bookParams(instruments, channel), snapshot: true },
+  }),
+
+  unsubscribe: (instruments, channel) => ({ method: "unsubscribe", params: bookParams(instruments, channel) }),
+
+  heartbeat: {
+    intervalMs: 30000,
+    message: () => JSON.stringify({ method: "ping" }),
+    // The heartbeat channel messages Kraken pushes every second are unprompted, so they do not answer a ping
+    isReply: (data) => data.method === "pong",
+  },
+
+  isSubscriptionAck: (data) => data.method === "subscribe" && data.success === true,
+
+  errorOf: (data) => (data.success === false ? data.error || `${data.method} rejected` : null),
+
+  instrumentOf: (data) => (Array.isArray(data.data) ? (data.data[0]?.symbol ?? null) : null),
+
+  parseMessage: (data, spec) => {
+    if (data.channel !== "book" || !Array.isArray(data.data) || !data.data[0]) return null
+
+    const orderbookData = data.data[0]
+    return {
+      action: data.type === "update" ? "delta" : "snapshot",
+      bids: toLevels(orderbookData.bids || [], spec),
+      asks: toLevels(orderbookData.asks || [], spec),
+      // Only updates carry a timestamp, snapshots do not
+      exchangeTimestamp: Date.parse(orderbookData.timestamp) || undefined,
+    }
+  },
+
+  verifyChecksum: (book, data) => {
+    const expected = data.data?.[0]?.checksum
+    return typeof expected !== "number" || computeKrakenChecksum(book) === expected
+  },
+}
@@ -0,0 +1,151 @@
+import type { LevelUpdate } from "@/lib/local-orderbook"
+import { computeOkxChecksum } from "@/lib/checksum"
+import type { InstrumentListing, VenueAdapter } from "./types"
+
+const spot = (instrument: string, tickSize: number, lotSize: number, minSize: number): InstrumentListing => {
+  const [base, quote] = instrument.split("-")
+  return {
+    instrument,
+    kind: "spot",
+    base,
+    quote,
+    tickSize,
+    lotSize,
+    minSize,
+    sizeUnit: "base",
+    contractValue: 1,
+    contractCurrency: base,
+  }
+}
+
+const toLevels = (levels: [string, string][]): LevelUpdate[] =>
+  levels.map(([price, size]) => [Number(price), Number(size), [price, size]])
+
+/**
+ * OKX v5 public order book channels. `books` sends one snapshot, then incremental updates with a CRC32
+ * checksum; `books5` pushes a full 5-level snapshot every time. The tick-by-tick channels need a login.
+ */
+export const okxAdapter: VenueAdapter = {
+  id: "OKX",
+  url: process.env.NEXT_PUBLIC_OKX_WS_URL || "wss://ws.okx.com:8443/ws/v5/public",
+
+  // Spot instruments are BASE-QUOTE; USD pairs resolve to USDT, which OKX lists instead
+  instruments: {
+    fetch: async () => {
+      const response = await fetch("https://www.okx.com/api/v5/public/instruments?instType=SPOT")
+      if (!response.ok) {
+        throw new Error(`Instruments request failed with status ${response.status}`)
+      }
+
+      const { data } = await response.json()
+      return (data || [])
+        .filter((instrument: any) => instrument.state === "live")
+        .map((instrument: any) =>
+          spot(instrument.instId, Number(instrument.tickSz), Number(instrument.lotSz), Number(instrument.minSz)),
+        )
+    },
+    fallback: [spot("BTC-USDT", 0.1, 0.00000001, 0.00001), spot("ETH-USDT", 0.01, 0.000001, 0.0001)],
+  },
+
+  channels: [
+    { id: "books5", label: "books5 (5 levels)", depth: 5 },
+    { id: "books", label: "books (400 levels, 100ms)", depth: 400 },
+  ],
+  defaultChannel: "books",
+
+  subscribe: (instruments, channel) => ({
+    op: "subscribe",
+    args: instruments.map((instId) => ({ channel, instId })),
+  }),
+
+  unsubscribe: (instruments, channel) => ({
+    op: "unsubscribe",
+    args: instruments.map((instId) => ({ channel, instId })),
+  }),
+
+  heartbeat: {
+    intervalMs: 30000,
+    message: () => "ping",
+    isReply: (data) => data === "pong",
+  },
+
+  isSubscriptionAck: (data) => data.event === "subscribe",
+
+  errorOf: (data) => (data.event === "error" ? `${data.msg || "Request rejected"} (${data.code})` : null),
+
+  instrumentOf: (data) => data.arg?.instId ?? null,
+
+  parseMessage: (data) => {
+    // OKX sends action "snapshot" once, then "update" with changed levels; books5 has no action and is always a snapshot
+    if (!data.arg?.channel?.startsWith("books") || !Array.isArray(data.data) || !data.data[0]) return null
+
+    const orderbookData = data.data[0]
+    return {
+      action: data.action === "update" ? "delta" : "snapshot",
+      bids: toLevels(orderbookData.bids || []),
+      asks: toLevels(orderbookData.asks || []),
+      exchangeTimestamp: Number(orderbookData.ts) || undefined,
+    }
+  },
+
+  verifyChecksum: (book, data) => {
+    const expected = data.data?.[0]?.checksum
+    return typeof expected !== "number" || computeOkxChecksum(book) === expected
+  },
+
+  // Mark, index, funding and open interest are separate channels; the index is keyed by the spot pair
+  derivatives: {
+    formatInstrument: (symbol) => `${symbol.split("-")[0]}-USDT-SWAP`,
+    openInterestUnit: "base",
+    subscribe: (instrument) => ({
+      op: "subscribe",
+      args: [
+        { channel: "mark-price", instId: instrument },
+        { channel: "index-tickers", instId: instrument.replace("-SWAP", "") },
+        { channel: "funding-rate", instId: instrument },
+        { channel: "open-interest", instId: instrument },
+      ],
+    }),
+    parse: (data) => {
+      const ticker = Array.isArray(data.data) ? data.data[0] : null
+      if (!ticker) return null
+
+      switch (data.arg?.channel) {
+        case "mark-price":
+          return { markPrice: Number(ticker.markPx) }
+        case "index-tickers":
+          return { indexPrice: Number(ticker.idxPx) }
+        case "funding-rate":
+          // fundingTime is the upcoming settlement, nextFundingTime the one after it
+          return { fundingRate: Number(ticker.fundingRate), nextFundingTime: Number(ticker.fundingTime) }
+        case "open-interest":
+          return { openInterest: Number(ticker.oiCcy) }
+        default:
+          return null
+      }
+    },
+  },
+
+  // `side` is the taker side
+  trades: {
+    subscribe: (instruments) => ({
+      op: "subscribe",
+      args: instruments.map((instId) => ({ channel: "trades", instId })),
+    }),
+    unsubscribe: (instruments) => ({
+      op: "unsubscribe",
+      args: instruments.map((instId) => ({ channel: "trades", instId })),
+    }),
+    parse: (data) => {
+      if (data.arg?.channel !== "trades" || !Array.isArray(data.data)) return null
+
+      return data.data.map((trade: any) => ({
+        id: String(trade.tradeId),
+        price: Number(trade.px),
+        size: Number(trade.sz),
+        side: trade.side === "sell" ? "sell" : "buy",
+        timestamp: Number(trade.ts),
+      }))
+    },
+  },
+}
@@ -0,0 +1,104 @@
+import type { DerivativesTicker, InstrumentSpec, Symbol, Trade } from "@/types/trading"
+import type { BookSequence, BookUpdate, LocalOrderbook } from "@/lib/local-orderbook"
+
+/**
+ * A selectable variant of a venue's book feed, e.g. a depth level or update grouping
+ */
+export interface BookChannel {
+  /** Id passed back to the adapter, e.g. "books5" */
+  id: string
+  label: string
+  /**
+   * Levels per side the channel maintains. The local book is truncated to it after every update,
+   * and it bounds the ladder and chart. Omitted for full-depth feeds.
+   */
+  depth?: number
+}
+
+/** An instrument as listed by the venue, before the registry attaches the venue and derived precision */
+export type InstrumentListing = Omit<InstrumentSpec, "venue" | "priceDecimals" | "sizeDecimals" | "source">
+
+/** A trade as parsed by an adapter, before the connection tags it with venue, symbol and receive time */
+export type TradeUpdate = Omit<Trade, "venue" | "symbol" | "receivedAt">
+
+/** Ticker fields carried by one message; venues that push deltas only include what changed */
+export type TickerUpdate = Partial<
+  Pick<DerivativesTicker, "markPrice" | "indexPrice" | "fundingRate" | "nextFundingTime" | "openInterest">
+>
+
+/**
+ * Contract every exchange integration implements.
+ * The connection layer only talks to venues through this interface,
+ * so adding an exchange means adding one adapter module and registering it.
+ */
+export interface VenueAdapter {
+  /** Registry key and display name, e.g. "OKX" */
+  id: string
+  /** Public WebSocket endpoint */
+  url: string
+  /**
+   * Instrument metadata. Symbols are resolved against what the venue lists, falling back to the bundled
+   * listings when the endpoint cannot be reached.
+   */
+  instruments: {
+    /** Load listings from the venue's instruments endpoint; `symbols` lets venues narrow the request */
+    fetch: (symbols: Symbol[]) => Promise<InstrumentListing[]>
+    /** Listings shipped with the app for offline use */
+    fallback: InstrumentListing[]
+  }
+  /** Book feed variants the venue offers */
+  channels: BookChannel[]
+  /** Channel id used unless another one is selected */
+  defaultChannel: string
+  /** Book channel subscription request(s) for the given instruments, sent in order */
+  subscribe: (instruments: string[], channel: string) => object | object[]
+  /** Matching unsubscribe request(s), used to force a fresh snapshot */
+  unsubscribe: (instruments: string[], channel: string) => object | object[]
+  /** Application-level keepalive, for venues that require one */
+  heartbeat?: {
+    intervalMs: number
+    /** Frame to send, already serialized */
+    message: () => string
+    /** Whether a decoded message (or raw text frame) answers the heartbeat */
+    isReply: (data: any) => boolean
+  }
+  /** Whether a decoded message acknowledges our subscription */
+  isSubscriptionAck: (data: any) => boolean
+  /** The venue's message when a decoded frame reports an error, e.g. a rejected subscription, or null */
+  errorOf: (data: any) => string | null
+  /** Instrument id a decoded book or trades message belongs to, for routing on a socket shared by many instruments */
+  instrumentOf: (data: any) => string | null
+  /** Parse a decoded message into a book update, or null for anything else; `spec` is the instrument it belongs to */
+  parseMessage: (data: any, spec?: InstrumentSpec) => BookUpdate | null
+  /** Whether `next` directly follows `last`; venues without sequencing omit this */
+  isContinuous?: (last: BookSequence, next: BookSequence) => boolean
+  /** Whether `next` is already contained in the book at `last` and can be dropped */
+  isStale?: (last: BookSequence, next: BookSequence) => boolean
+  /**
+   * Fetch a REST snapshot for venues whose stream only carries deltas.
+   * Stream updates are buffered until it resolves, then replayed through `isStale`/`isContinuous`.
+   */
+  fetchSnapshot?: (instrument: string) => Promise<BookUpdate>
+  /** Verify the local book against the exchange checksum carried by the message */
+  verifyChecksum?: (book: LocalOrderbook, data: any) => boolean
+  /** Perpetual swap ticker channels, on a socket of their own since the book may be a spot market */
+  derivatives?: {
+    /** Endpoint for the perpetual's channels, when it differs from `url` */
+    url?: string
+    /** Perpetual instrument id for a symbol */
+    formatInstrument: (symbol: Symbol) => string
+    openInterestUnit: DerivativesTicker["openInterestUnit"]
+    /** Subscription request(s) for the instrument's ticker channels */
+    subscribe: (instrument: string) => object | object[]
+    /** Parse a decoded message into changed ticker fields, or null for anything else */
+    parse: (data: any) => TickerUpdate | null
+  }
+  /** Public trades channel, subscribed on the same socket as the book */
+  trades?: {
+    /** Subscription request(s) for the given instruments */
+    subscribe: (instruments: string[]) => object | object[]
+    unsubscribe: (instruments: string[]) => object | object[]
+    /** Parse a decoded message into trades, or null for anything else */
+    parse: (data: any) => TradeUpdate[] | null
+  }
+}
@@ -9,6 +9,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Loaded with require() at runtime so its optional native addons are not bundled
+  serverExternalPackages: ["ws"],
 }
 
 export default nextConfig
@@ -0,0 +1,35 @@
+/** Failures the mock exchange injects to exercise the client's recovery paths */
+export interface FaultOptions {
+  /** Drop each connection without a close frame after about this long, 0 to keep connections up */
+  disconnectAfterMs: number
+  /** Chance that a book update is cut short so it no longer parses */
+  malformedRate: number
+  /** Chance that a book update is silently skipped, leaving a sequence gap */
+  gapRate: number
+}
+
+export const NO_FAULTS: FaultOptions = {
+  disconnectAfterMs: 0,
+  malformedRate: 0,
+  gapRate: 0,
+}
+
+export interface FaultInjector {
+  /** The frame to send in place of a book update, or null to drop it */
+  update: (frame: string) => string | null
+  /** Delay before dropping a new connection, or null to keep it */
+  disconnectDelay: () => number | null
+}
+
+export function createFaultInjector(options: FaultOptions): FaultInjector {
+  return {
+    update: (frame) => {
+      if (Math.random() < options.gapRate) return null
+      if (Math.random() < options.malformedRate) return frame.slice(0, Math.floor(frame.length / 2))
+      return frame
+    },
+    // Jitter by ±25% so clients that connected together do not all drop at once
+    disconnectDelay: () =>
+      options.disconnectAfterMs > 0 ? options.disconnectAfterMs * (0.75 + Math.random() * 0.5) : null,
+  }
+}
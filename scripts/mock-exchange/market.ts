@@ -0,0 +1,170 @@
+import { createLocalOrderbook, type LevelUpdate, type LocalOrderbook } from "@/lib/local-orderbook"
+import { createSyntheticMarket, type MarketRegime, type SyntheticTrade } from "@/lib/synthetic-market"
+
+/** One level change as the venue would send it, with prices and sizes as strings */
+export interface MarketLevelChange {
+  price: string
+  /** "0" when the level is removed */
+  size: string
+  action: "new" | "change" | "delete"
+}
+
+/** One execution against the touch, with price and size as strings */
+export interface MarketTrade {
+  id: number
+  price: string
+  size: string
+  /** Aggressor side */
+  side: "buy" | "sell"
+}
+
+/** Level changes of both sides of a book */
+export interface BookChanges {
+  bids: MarketLevelChange[]
+  asks: MarketLevelChange[]
+}
+
+export interface MarketChanges extends BookChanges {
+  /** Executions that happened during the step */
+  trades: MarketTrade[]
+}
+
+/** Top levels per side as [price, size] strings, best first */
+export interface MarketLevels {
+  bids: [string, string][]
+  asks: [string, string][]
+}
+
+export interface SimulatedMarket {
+  levels: (depth: number) => MarketLevels
+  /** Advance the market one step and return the levels that changed */
+  step: () => MarketChanges
+  /** The book exactly as a client rebuilds it, e.g. for checksums */
+  book: LocalOrderbook
+  /** Increases by one every step; venues derive their update ids from it */
+  sequence: () => number
+}
+
+export interface MarketOptions {
+  basePrice: number
+  tickSize: number
+  /** Levels kept on each side */
+  depth: number
+  /** Seed of the synthetic order flow; the same seed and regime replay the same session */
+  seed: number
+  regime: MarketRegime
+}
+
+/** Levels per side of every simulated book */
+export const MARKET_DEPTH = 50
+
+/**
+ * Starting price and tick size for a venue instrument id such as "ETH-USDT" or "BTC-PERPETUAL"
+ */
+export const getMarketOptions = (instrument: string): Pick<MarketOptions, "basePrice" | "tickSize" | "depth"> =>
+  instrument.startsWith("ETH")
+    ? { basePrice: 2500, tickSize: 0.01, depth: MARKET_DEPTH }
+    : { basePrice: 43000, tickSize: 0.1, depth: MARKET_DEPTH }
+
+const decimalsOf = (value: number) => (String(value).split(".")[1] ?? "").length
+
+const sizeText = (size: number) => size.toFixed(4)
+
+/**
+ * Remove levels that left the window, add the ones that entered it and resize the ones that changed
+ */
+const diffSide = (previous: [string, string][], next: [string, string][]): MarketLevelChange[] => {
+  const existing = new Map(previous)
+  const wanted = new Map(next)
+  const changes: MarketLevelChange[] = []
+
+  existing.forEach((_, price) => {
+    if (!wanted.has(price)) changes.push({ price, size: "0", action: "delete" })
+  })
+  wanted.forEach((size, price) => {
+    const current = existing.get(price)
+    if (current === undefined) changes.push({ price, size, action: "new" })
+    else if (current !== size) changes.push({ price, size, action: "change" })
+  })
+
+  return changes
+}
+
+/**
+ * The changes that turn one window of a book into the next, e.g. what a client holding the top 50 levels
+ * needs to keep holding them. Levels moving in or out of the window count as inserts and removals.
+ */
+export const diffLevels = (previous: MarketLevels, next: MarketLevels): BookChanges => ({
+  bids: diffSide(previous.bids, next.bids),
+  asks: diffSide(previous.asks, next.asks),
+})
+
+/**
+ * The app's seeded synthetic market (see lib/synthetic-market.ts) seen through a venue feed: the top `depth`
+ * levels per side, diffed between steps into the level changes a venue would push, plus the fills of each step.
+ * Fully determined by the seed, the regime and the number of steps.
+ */
+export function createSimulatedMarket({ basePrice, tickSize, depth, seed, regime }: MarketOptions): SimulatedMarket {
+  const priceDecimals = decimalsOf(tickSize)
+  const book = createLocalOrderbook()
+  let pendingTrades: SyntheticTrade[] = []
+  const synthetic = createSyntheticMarket({
+    seed,
+    regime,
+    basePrice,
+    tickSize,
+    onTrade: (trade) => pendingTrades.push(trade),
+  })
+  let sequence = 1
+  let tradeId = 1
+
+  const priceText = (price: number) => price.toFixed(priceDecimals)
+  const toLevel = (price: string, size: string): LevelUpdate => [Number(price), Number(size), [price, size]]
+
+  const initial = synthetic.toOrderbook(depth)
+  book.apply({
+    action: "snapshot",
+    bids: initial.bids.map(([price, size]) => toLevel(priceText(price), sizeText(size))),
+    asks: initial.asks.map(([price, size]) => toLevel(priceText(price), sizeText(size))),
+  })
+
+  const levels = (levelDepth: number): MarketLevels => ({
+    bids: book.getLevels("bids", levelDepth).map(([, , text]) => text!),
+    asks: book.getLevels("asks", levelDepth).map(([, , text]) => text!),
+  })
+
+  const toText = (side: [number, number][]) =>
+    side.map(([price, size]): [string, string] => [priceText(price), sizeText(size)])
+
+  const step = (): MarketChanges => {
+    synthetic.step()
+
+    const trades: MarketTrade[] = pendingTrades.map(({ price, size, side }) => ({
+      id: tradeId++,
+      price: priceText(price),
+      size: sizeText(size),
+      side,
+    }))
+    pendingTrades = []
+
+    const top = synthetic.toOrderbook(depth)
+    const changes = { ...diffLevels(levels(depth), { bids: toText(top.bids), asks: toText(top.asks) }), trades }
+
+    // Every step carries at least one change so venues always have an update to sequence
+    if (changes.bids.length === 0 && changes.asks.length === 0) {
+      const [price, size] = top.bids[0]
+      changes.bids.push({ price: priceText(price), size: sizeText(size), action: "change" })
+    }
+
+    book.apply({
+      action: "delta",
+      bids: changes.bids.map(({ price, size }) => toLevel(price, size)),
+      asks: changes.asks.map(({ price, size }) => toLevel(price, size)),
+    })
+    sequence++
+
+    return changes
+  }
+
+  return { levels, step, book, sequence: () => sequence }
+}
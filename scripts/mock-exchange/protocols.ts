@@ -0,0 +1,369 @@
+import type { Venue } from "@/types/trading"
+import { computeOkxChecksum } from "@/lib/checksum"
+import { createLocalOrderbook } from "@/lib/local-orderbook"
+import { getBookChannel, getVenueAdapter } from "@/lib/venues"
+import type { BookChanges, MarketLevels, MarketTrade, SimulatedMarket } from "./market"
+
+/** Channel of a MockTopic that subscribes to trades rather than a book */
+export const TRADES_CHANNEL = "trades"
+
+/** One book or trades subscription of a client */
+export interface MockTopic {
+  instrument: string
+  /** Book channel, or TRADES_CHANNEL */
+  channel: string
+}
+
+/** What the server should do about one client frame */
+export interface ClientRequest {
+  /** Frames to answer with right away, e.g. acks and pongs */
+  replies: string[]
+  subscribe?: MockTopic[]
+  unsubscribe?: MockTopic[]
+}
+
+/**
+ * Levels per side a client of a book channel holds, e.g. 50 for Bybit `orderbook.50`.
+ * Books are pushed as this window of the market, so levels entering or leaving it arrive as inserts and removals.
+ */
+export const getWindowDepth = (venue: Venue, channel: string) =>
+  getBookChannel(venue, channel).depth ?? Number.MAX_SAFE_INTEGER
+
+/**
+ * Message formats of one venue: how clients subscribe and ping, and how books are pushed.
+ * Books are the subscription's window of the market (see getWindowDepth), as tracked by the server.
+ */
+export interface MockVenueProtocol {
+  venue: Venue
+  /** Path the server accepts this venue's connections on */
+  path: string
+  /** Interpret a client frame, null when it is not understood */
+  handleFrame: (frame: string) => ClientRequest | null
+  /** Full window sent right after subscribing */
+  snapshot: (topic: MockTopic, window: MarketLevels, market: SimulatedMarket, now: number) => string
+  /** Frame pushed after every market step, with the changes to the window the client last received */
+  update: (topic: MockTopic, window: MarketLevels, changes: BookChanges, market: SimulatedMarket, now: number) => string
+  /** Frame pushed to trades subscribers after a step that traded */
+  trades: (topic: MockTopic, trades: MarketTrade[], now: number) => string
+}
+
+const isKnownChannel = (venue: Venue, channel: string) =>
+  getVenueAdapter(venue).channels.some((candidate) => candidate.id === channel)
+
+const parseJson = (frame: string): any => {
+  try {
+    return JSON.parse(frame)
+  } catch {
+    return null
+  }
+}
+
+/** OKX checksum of the book a client rebuilds from a window */
+const windowChecksum = ({ bids, asks }: MarketLevels) => {
+  const book = createLocalOrderbook()
+  const toLevel = ([price, size]: [string, string]): [number, number, [string, string]] => [
+    Number(price),
+    Number(size),
+    [price, size],
+  ]
+  book.apply({ action: "snapshot", bids: bids.map(toLevel), asks: asks.map(toLevel) })
+  return computeOkxChecksum(book)
+}
+
+/**
+ * OKX v5 public channels: `{op, args}` requests, one event per subscribed arg, a plain "ping"
+ * heartbeat, and books with a CRC32 checksum except `books5`, which always pushes a full snapshot
+ */
+const okxProtocol: MockVenueProtocol = {
+  venue: "OKX",
+  path: "/okx",
+
+  handleFrame: (frame) => {
+    if (frame === "ping") return { replies: ["pong"] }
+
+    const request = parseJson(frame)
+    if ((request?.op !== "subscribe" && request?.op !== "unsubscribe") || !Array.isArray(request.args)) return null
+
+    const replies: string[] = []
+    const topics: MockTopic[] = []
+    request.args.forEach((arg: any) => {
+      if (arg?.channel !== TRADES_CHANNEL && !isKnownChannel("OKX", arg?.channel)) {
+        replies.push(
+          JSON.stringify({
+            event: "error",
+            code: "60018",
+            msg: `Wrong URL or channel:${arg?.channel}`,
+            connId: "mock",
+          }),
+        )
+        return
+      }
+      topics.push({ instrument: arg.instId, channel: arg.channel })
+      replies.push(JSON.stringify({ event: request.op, arg, connId: "mock" }))
+    })
+
+    return request.op === "subscribe" ? { replies, subscribe: topics } : { replies, unsubscribe: topics }
+  },
+
+  snapshot: (topic, window, market, now) => {
+    const arg = { channel: topic.channel, instId: topic.instrument }
+    const withOrders = (levels: [string, string][]) => levels.map(([price, size]) => [price, size, "0", "1"])
+    const { bids, asks } = window
+
+    if (topic.channel === "books5") {
+      return JSON.stringify({
+        arg,
+        data: [{ asks: withOrders(asks), bids: withOrders(bids), instId: topic.instrument, ts: String(now) }],
+      })
+    }
+
+    return JSON.stringify({
+      arg,
+      action: "snapshot",
+      data: [
+        {
+          asks: withOrders(asks),
+          bids: withOrders(bids),
+          ts: String(now),
+          checksum: windowChecksum(window),
+          prevSeqId: -1,
+          seqId: market.sequence(),
+        },
+      ],
+    })
+  },
+
+  update: (topic, window, changes, market, now) => {
+    if (topic.channel === "books5") return okxProtocol.snapshot(topic, window, market, now)
+
+    const toLevels = (side: BookChanges["bids"]) => side.map(({ price, size }) => [price, size, "0", "1"])
+    return JSON.stringify({
+      arg: { channel: topic.channel, instId: topic.instrument },
+      action: "update",
+      data: [
+        {
+          asks: toLevels(changes.asks),
+          bids: toLevels(changes.bids),
+          ts: String(now),
+          checksum: windowChecksum(window),
+          prevSeqId: market.sequence() - 1,
+          seqId: market.sequence(),
+        },
+      ],
+    })
+  },
+
+  trades: (topic, trades, now) =>
+    JSON.stringify({
+      arg: { channel: TRADES_CHANNEL, instId: topic.instrument },
+      data: trades.map((trade) => ({
+        instId: topic.instrument,
+        tradeId: String(trade.id),
+        px: trade.price,
+        sz: trade.size,
+        side: trade.side,
+        ts: String(now),
+        count: "1",
+      })),
+    }),
+}
+
+/** Bybit topics are `orderbook.{depth}.{symbol}` and `publicTrade.{symbol}` */
+const parseBybitTopic = (topic: string): MockTopic | null => {
+  const [name, channel, instrument] = topic.split(".")
+  if (name === "publicTrade" && channel) return { instrument: channel, channel: TRADES_CHANNEL }
+  return name === "orderbook" && instrument && isKnownChannel("Bybit", channel) ? { instrument, channel } : null
+}
+
+/**
+ * Bybit v5 public spot: `{op, args}` requests with a single ack, `{op: "ping"}` heartbeats,
+ * and books chained by update id `u` and cross sequence `seq`. Depth 1 always pushes a snapshot.
+ */
+const bybitProtocol: MockVenueProtocol = {
+  venue: "Bybit",
+  path: "/bybit",
+
+  handleFrame: (frame) => {
+    const request = parseJson(frame)
+    if (request?.op === "ping") {
+      return { replies: [JSON.stringify({ success: true, ret_msg: "pong", conn_id: "mock", op: "ping" })] }
+    }
+    if ((request?.op !== "subscribe" && request?.op !== "unsubscribe") || !Array.isArray(request.args)) return null
+
+    const topics = request.args.map(parseBybitTopic)
+    const valid = topics.every(Boolean)
+    const reply = JSON.stringify({
+      success: valid,
+      ret_msg: valid ? "" : `Invalid topic: ${request.args.join(",")}`,
+      conn_id: "mock",
+      req_id: request.req_id,
+      op: request.op,
+    })
+    if (!valid) return { replies: [reply] }
+
+    return request.op === "subscribe"
+      ? { replies: [reply], subscribe: topics }
+      : { replies: [reply], unsubscribe: topics }
+  },
+
+  snapshot: (topic, { bids, asks }, market, now) => {
+    return JSON.stringify({
+      topic: `orderbook.${topic.channel}.${topic.instrument}`,
+      type: "snapshot",
+      ts: now,
+      data: { s: topic.instrument, b: bids, a: asks, u: market.sequence(), seq: market.sequence() * 10 },
+      cts: now - 1,
+    })
+  },
+
+  update: (topic, window, changes, market, now) => {
+    if (topic.channel === "1") return bybitProtocol.snapshot(topic, window, market, now)
+
+    const toLevels = (side: BookChanges["bids"]) => side.map(({ price, size }) => [price, size])
+    return JSON.stringify({
+      topic: `orderbook.${topic.channel}.${topic.instrument}`,
+      type: "delta",
+      ts: now,
+      data: {
+        s: topic.instrument,
+        b: toLevels(changes.bids),
+        a: toLevels(changes.asks),
+        u: market.sequence(),
+        seq: market.sequence() * 10,
+      },
+      cts: now - 1,
+    })
+  },
+
+  trades: (topic, trades, now) =>
+    JSON.stringify({
+      topic: `publicTrade.${topic.instrument}`,
+      type: "snapshot",
+      ts: now,
+      data: trades.map((trade) => ({
+        T: now,
+        s: topic.instrument,
+        S: trade.side === "buy" ? "Buy" : "Sell",
+        v: trade.size,
+        p: trade.price,
+        i: String(trade.id),
+        BT: false,
+      })),
+    }),
+}
+
+/** Deribit channels are `book.{instrument}.{interval}` and `trades.{instrument}.{interval}` */
+const parseDeribitChannel = (channel: string): MockTopic | null => {
+  const [name, instrument, interval] = channel.split(".")
+  if (name === "trades" && instrument && interval) return { instrument, channel: TRADES_CHANNEL }
+  return name === "book" && instrument && interval ? { instrument, channel: interval } : null
+}
+
+/** USD per contract of the inverse perpetuals, which count amounts in USD */
+const DERIBIT_CONTRACT_SIZE: Record<string, number> = { BTC: 10, ETH: 1 }
+
+/**
+ * The simulated base currency size as a Deribit amount: USD in whole contracts, at least one unless removed
+ */
+const toDeribitAmount = (instrument: string, price: string, size: string) => {
+  const contractSize = DERIBIT_CONTRACT_SIZE[instrument.split("-")[0]] ?? 1
+  const amount = Number(size) * Number(price)
+  return amount === 0 ? 0 : Math.max(1, Math.round(amount / contractSize)) * contractSize
+}
+
+/**
+ * Deribit v2 JSON-RPC: `public/subscribe` answers with the channel list, `public/ping` with "pong",
+ * and books arrive as `subscription` notifications chained by `change_id`/`prev_change_id`.
+ * Perpetual amounts are in USD, like the real inverse contracts.
+ * Like the real venue, `raw` channels are refused on connections that are not authorized.
+ */
+const deribitProtocol: MockVenueProtocol = {
+  venue: "Deribit",
+  path: "/deribit",
+
+  handleFrame: (frame) => {
+    const request = parseJson(frame)
+    if (request?.jsonrpc !== "2.0") return null
+
+    const reply = (body: object) => JSON.stringify({ jsonrpc: "2.0", id: request.id, ...body, usIn: Date.now() * 1000 })
+
+    if (request.method === "public/ping" || request.method === "public/test") {
+      return { replies: [reply({ result: "pong" })] }
+    }
+    if (request.method !== "public/subscribe" && request.method !== "public/unsubscribe") return null
+
+    const channels: string[] = request.params?.channels ?? []
+    const topics = channels.map(parseDeribitChannel).filter((topic): topic is MockTopic => topic !== null)
+
+    if (request.method === "public/subscribe" && topics.some((topic) => topic.channel === "raw")) {
+      return {
+        replies: [reply({ error: { code: 13778, message: "raw_subscriptions_not_available_for_unauthorized" } })],
+      }
+    }
+
+    return request.method === "public/subscribe"
+      ? { replies: [reply({ result: channels })], subscribe: topics }
+      : { replies: [reply({ result: channels })], unsubscribe: topics }
+  },
+
+  snapshot: (topic, { bids, asks }, market, now) => {
+    const toEntries = (levels: [string, string][]) =>
+      levels.map(([price, size]) => ["new", Number(price), toDeribitAmount(topic.instrument, price, size)])
+    return JSON.stringify({
+      jsonrpc: "2.0",
+      method: "subscription",
+      params: {
+        channel: `book.${topic.instrument}.${topic.channel}`,
+        data: {
+          type: "snapshot",
+          timestamp: now,
+          instrument_name: topic.instrument,
+          change_id: market.sequence(),
+          bids: toEntries(bids),
+          asks: toEntries(asks),
+        },
+      },
+    })
+  },
+
+  update: (topic, _window, changes, market, now) => {
+    const toEntries = (side: BookChanges["bids"]) =>
+      side.map(({ price, size, action }) => [action, Number(price), toDeribitAmount(topic.instrument, price, size)])
+    return JSON.stringify({
+      jsonrpc: "2.0",
+      method: "subscription",
+      params: {
+        channel: `book.${topic.instrument}.${topic.channel}`,
+        data: {
+          type: "change",
+          timestamp: now,
+          instrument_name: topic.instrument,
+          prev_change_id: market.sequence() - 1,
+          change_id: market.sequence(),
+          bids: toEntries(changes.bids),
+          asks: toEntries(changes.asks),
+        },
+      },
+    })
+  },
+
+  trades: (topic, trades, now) =>
+    JSON.stringify({
+      jsonrpc: "2.0",
+      method: "subscription",
+      params: {
+        channel: `trades.${topic.instrument}.100ms`,
+        data: trades.map((trade) => ({
+          trade_id: String(trade.id),
+          instrument_name: topic.instrument,
+          price: Number(trade.price),
+          amount: toDeribitAmount(topic.instrument, trade.price, trade.size),
+          direction: trade.side,
+          timestamp: now,
+        })),
+      },
+    }),
+}
+
+/** Venues the mock exchange speaks, by connection path */
+export const MOCK_PROTOCOLS: MockVenueProtocol[] = [okxProtocol, bybitProtocol, deribitProtocol]
@@ -0,0 +1,68 @@
+import { MOCK_EXCHANGE_TEST_PORT } from "./test-env"
+import { after, before, test } from "node:test"
+import assert from "node:assert/strict"
+import { createFeedHub } from "@/lib/feed/feed-hub"
+import { createReplayFeedClient, parseCapture } from "@/lib/feed/replay"
+import type { FeedCommand, FeedEvent } from "@/lib/feed/protocol"
+import type { Venue } from "@/types/trading"
+import { NO_FAULTS } from "./faults"
+import { startMockExchange, type MockExchange } from "./server"
+
+const VENUES: Venue[] = ["OKX", "Bybit", "Deribit"]
+
+const SUBSCRIBE: FeedCommand = { type: "subscribe", venues: VENUES, symbol: "BTC-USDT", channels: {} }
+
+/** Venues that have delivered at least one book in the events so far */
+const venuesWithBooks = (events: FeedEvent[]) =>
+  new Set(events.flatMap((event) => (event.type === "books" ? (Object.keys(event.orderbooks) as Venue[]) : [])))
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out")
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+let exchange: MockExchange
+
+before(async () => {
+  exchange = await startMockExchange({
+    port: MOCK_EXCHANGE_TEST_PORT,
+    updateIntervalMs: 20,
+    faults: NO_FAULTS,
+    log: () => {},
+  })
+})
+
+after(() => exchange.close())
+
+test("a capture started mid-session replays every venue's book", async () => {
+  const events: FeedEvent[] = []
+  const session = createFeedHub().connect((event) => events.push(event))
+  session.handle(SUBSCRIBE)
+
+  try {
+    // Books are already streaming when the recording starts, so the capture needs snapshots of its own
+    await waitFor(() => VENUES.every((venue) => venuesWithBooks(events).has(venue)))
+    session.handle({ type: "startRecording", limits: { maxBytes: 10 * 1024 * 1024, maxDurationMs: 60000 } })
+    await new Promise((resolve) => setTimeout(resolve, 300))
+    session.handle({ type: "stopRecording" })
+  } finally {
+    session.dispose()
+  }
+
+  const complete = events.find((event) => event.type === "recordingComplete")
+  assert.ok(complete)
+  const messages = parseCapture(await complete.blob.text())
+  assert.ok(messages.length > 0)
+
+  const replayEvents: FeedEvent[] = []
+  const replay = createReplayFeedClient({ fileName: complete.fileName, messages }, (event) => replayEvents.push(event))
+  replay.send(SUBSCRIBE)
+  replay.send({ type: "replaySeek", position: Number.MAX_SAFE_INTEGER })
+  replay.dispose()
+
+  assert.deepEqual([...venuesWithBooks(replayEvents)].sort(), [...VENUES].sort())
+  assert.ok(!replayEvents.some((event) => event.type === "error" && event.message !== null))
+})
@@ -0,0 +1,145 @@
+import { after, before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { WebSocket } from "ws"
+import { createBookProcessor } from "@/lib/feed/book-processor"
+import { formatSymbolForVenue } from "@/lib/instruments"
+import { deriveSeed } from "@/lib/synthetic-market"
+import type { Orderbook, Venue } from "@/types/trading"
+import { NO_FAULTS } from "./faults"
+import { createSimulatedMarket, diffLevels, getMarketOptions } from "./market"
+import { startMockExchange, type MockExchange } from "./server"
+
+const SEED = 7
+
+/** Updates each client receives before its book is compared */
+const UPDATES = 40
+
+/** Subscribe frame of each venue for one book channel */
+const subscribeFrames: Partial<Record<Venue, (instrument: string, channel: string) => string>> = {
+  OKX: (instId, channel) => JSON.stringify({ op: "subscribe", args: [{ channel, instId }] }),
+  Bybit: (instrument, channel) => JSON.stringify({ op: "subscribe", args: [`orderbook.${channel}.${instrument}`] }),
+}
+
+/** Whether a frame carries a book snapshot or update rather than an ack */
+const isBookFrame = (data: any) => data?.action !== undefined || data?.type !== undefined
+
+interface SyncedClient {
+  /** Book frames received, the snapshot included */
+  frames: number
+  book: Orderbook | null
+  checksumMismatches: number
+  events: string[]
+}
+
+/**
+ * Subscribe to one book over a raw socket and rebuild it with the app's book processor,
+ * closing the socket once `updates` updates have arrived after the snapshot
+ */
+const syncClient = (url: string, venue: Venue, channel: string, updates: number) =>
+  new Promise<SyncedClient>((resolve, reject) => {
+    const client: SyncedClient = { frames: 0, book: null, checksumMismatches: 0, events: [] }
+    const processor = createBookProcessor(
+      venue,
+      "BTC-USDT",
+      channel,
+      {
+        onBook: (orderbook) => {
+          client.book = orderbook
+        },
+        onStatus: () => {},
+        onError: (message) => {
+          if (message) client.events.push(message)
+        },
+        onChecksumMismatch: () => client.checksumMismatches++,
+        onEvent: (message) => client.events.push(message),
+      },
+      { fetchSnapshots: false },
+    )
+    const socket = new WebSocket(url)
+
+    socket.on("open", () => socket.send(subscribeFrames[venue]!(formatSymbolForVenue(venue, "BTC-USDT"), channel)))
+    socket.on("message", (raw) => {
+      const text = raw.toString()
+      processor.handleMessage(text, Date.now())
+      if (isBookFrame(JSON.parse(text)) && ++client.frames > updates) socket.close()
+    })
+    socket.on("close", () => {
+      processor.dispose()
+      resolve(client)
+    })
+    socket.on("error", reject)
+  })
+
+/** The venue's market replayed locally to the step the client stopped at, as the client should hold it */
+const expectedBook = (venue: Venue, steps: number, depth: number) => {
+  const instrument = formatSymbolForVenue(venue, "BTC-USDT")
+  const market = createSimulatedMarket({
+    ...getMarketOptions(instrument),
+    seed: deriveSeed(SEED, `${venue}:${instrument}`),
+    regime: "calm",
+  })
+  for (let i = 0; i < steps; i++) market.step()
+
+  const { bids, asks } = market.levels(depth)
+  const toNumbers = (levels: [string, string][]) => levels.map(([price, size]) => [Number(price), Number(size)])
+  return { bids: toNumbers(bids), asks: toNumbers(asks) }
+}
+
+describe("mock exchange", () => {
+  let exchange: MockExchange
+
+  before(async () => {
+    exchange = await startMockExchange({
+      port: 0,
+      updateIntervalMs: 10,
+      faults: NO_FAULTS,
+      seed: SEED,
+      log: () => {},
+    })
+  })
+
+  after(() => exchange.close())
+
+  const channels: [Venue, string, number][] = [
+    ["OKX", "books", 400],
+    ["Bybit", "50", 50],
+  ]
+
+  channels.forEach(([venue, channel, depth]) => {
+    test(`keeps a ${venue} ${channel} client in sync with the market`, async () => {
+      const client = await syncClient(exchange.urls[venue], venue, channel, UPDATES)
+
+      assert.equal(client.checksumMismatches, 0)
+      assert.deepEqual(client.events, [])
+      assert.ok(client.book)
+      const expected = expectedBook(venue, client.frames - 1, depth)
+      assert.deepEqual({ bids: client.book.bids, asks: client.book.asks }, expected)
+    })
+  })
+
+  test("sends levels entering and leaving a depth-limited window", () => {
+    const previous = {
+      bids: [
+        ["100", "1"],
+        ["99", "2"],
+      ] as [string, string][],
+      asks: [["101", "1"]] as [string, string][],
+    }
+    // A better bid pushes 99 out of the top 2
+    const next = {
+      bids: [
+        ["100.5", "3"],
+        ["100", "1"],
+      ] as [string, string][],
+      asks: [["101", "2"]] as [string, string][],
+    }
+
+    assert.deepEqual(diffLevels(previous, next), {
+      bids: [
+        { price: "99", size: "0", action: "delete" },
+        { price: "100.5", size: "3", action: "new" },
+      ],
+      asks: [{ price: "101", size: "2", action: "change" }],
+    })
+  })
+})
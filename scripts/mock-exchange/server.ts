@@ -0,0 +1,268 @@
+import { createServer, type Server } from "node:http"
+import { parseArgs } from "node:util"
+import { WebSocketServer, type WebSocket } from "ws"
+import { deriveSeed, isMarketRegime, type MarketRegime } from "@/lib/synthetic-market"
+import {
+  createSimulatedMarket,
+  diffLevels,
+  getMarketOptions,
+  type MarketChanges,
+  type MarketLevels,
+  type SimulatedMarket,
+} from "./market"
+import { MOCK_PROTOCOLS, TRADES_CHANNEL, getWindowDepth, type MockTopic, type MockVenueProtocol } from "./protocols"
+import { NO_FAULTS, createFaultInjector, type FaultOptions } from "./faults"
+
+export interface MockExchangeOptions {
+  port: number
+  /** How often every subscribed market moves and pushes an update */
+  updateIntervalMs: number
+  faults: FaultOptions
+  /** Seed of every market's order flow, so runs can be reproduced; defaults to 1 */
+  seed?: number
+  /** Market conditions to simulate; defaults to "calm" */
+  regime?: MarketRegime
+  /** Where connection and subscription messages go; defaults to the console */
+  log?: (message: string) => void
+}
+
+export interface MockExchange {
+  /** Base WebSocket URL per venue, e.g. ws://localhost:8765/okx */
+  urls: Record<string, string>
+  close: () => Promise<void>
+}
+
+/** One client connection and the books and trades it subscribed to */
+interface MockSession {
+  socket: WebSocket
+  protocol: MockVenueProtocol
+  topics: Map<string, MockTopic>
+  /** Book window each book topic's client holds, as of the last frame sent */
+  windows: Map<string, MarketLevels>
+  disconnectTimeout: ReturnType<typeof setTimeout> | null
+}
+
+const topicKey = (topic: MockTopic) => `${topic.channel}:${topic.instrument}`
+
+/**
+ * Serve OKX, Bybit and Deribit style WebSocket feeds from simulated markets, on one port with a path per venue.
+ * Each venue/instrument has its own market, shared by every connection subscribed to it, seeded from `seed`
+ * and the venue/instrument so the same seed replays the same order flow.
+ */
+export function startMockExchange({
+  port,
+  updateIntervalMs,
+  faults,
+  seed = 1,
+  regime = "calm",
+  log = console.log,
+}: MockExchangeOptions): Promise<MockExchange> {
+  const injector = createFaultInjector(faults)
+  const sessions = new Set<MockSession>()
+  const markets = new Map<string, SimulatedMarket>()
+
+  const getMarket = (protocol: MockVenueProtocol, instrument: string) => {
+    const key = `${protocol.venue}:${instrument}`
+    let market = markets.get(key)
+    if (!market) {
+      market = createSimulatedMarket({ ...getMarketOptions(instrument), seed: deriveSeed(seed, key), regime })
+      markets.set(key, market)
+    }
+    return market
+  }
+
+  const send = (session: MockSession, frame: string | null) => {
+    if (frame !== null && session.socket.readyState === session.socket.OPEN) session.socket.send(frame)
+  }
+
+  const handleFrame = (session: MockSession, frame: string) => {
+    const request = session.protocol.handleFrame(frame)
+    if (!request) {
+      log(`⚠️ ${session.protocol.venue} mock ignored frame: ${frame.slice(0, 200)}`)
+      return
+    }
+
+    request.replies.forEach((reply) => send(session, reply))
+    request.unsubscribe?.forEach((topic) => {
+      session.topics.delete(topicKey(topic))
+      session.windows.delete(topicKey(topic))
+    })
+    request.subscribe?.forEach((topic) => {
+      session.topics.set(topicKey(topic), topic)
+      log(`📡 ${session.protocol.venue} mock subscribed to ${topic.channel} ${topic.instrument}`)
+      // Trades have no initial state to send
+      if (topic.channel !== TRADES_CHANNEL) {
+        const market = getMarket(session.protocol, topic.instrument)
+        const window = market.levels(getWindowDepth(session.protocol.venue, topic.channel))
+        session.windows.set(topicKey(topic), window)
+        send(session, session.protocol.snapshot(topic, window, market, Date.now()))
+      }
+    })
+  }
+
+  /**
+   * Move every market that has subscribers one step and push the update to them. Each book subscription
+   * gets the changes to its own window, so a level moving into a depth-limited window arrives as an insert.
+   * A window counts as sent even when a fault drops the frame, which is what leaves the client with a gap.
+   */
+  const tick = () => {
+    const now = Date.now()
+    const stepped = new Map<SimulatedMarket, MarketChanges>()
+
+    sessions.forEach((session) => {
+      session.topics.forEach((topic) => {
+        const market = getMarket(session.protocol, topic.instrument)
+        let changes = stepped.get(market)
+        if (!changes) {
+          changes = market.step()
+          stepped.set(market, changes)
+        }
+
+        // Faults only target book updates, which is where the client has recovery paths
+        if (topic.channel === TRADES_CHANNEL) {
+          if (changes.trades.length > 0) send(session, session.protocol.trades(topic, changes.trades, now))
+        } else {
+          const key = topicKey(topic)
+          const window = market.levels(getWindowDepth(session.protocol.venue, topic.channel))
+          const windowChanges = diffLevels(session.windows.get(key) ?? window, window)
+          session.windows.set(key, window)
+          send(session, injector.update(session.protocol.update(topic, window, windowChanges, market, now)))
+        }
+      })
+    })
+  }
+
+  const server: Server = createServer((request, response) => {
+    // Plain HTTP requests get the endpoint list, which doubles as a health check
+    response.writeHead(200, { "Content-Type": "application/json" })
+    response.end(
+      JSON.stringify({
+        venues: Object.fromEntries(MOCK_PROTOCOLS.map((p) => [p.venue, p.path])),
+        seed,
+        regime,
+        faults,
+      }),
+    )
+  })
+  const wss = new WebSocketServer({ noServer: true })
+
+  server.on("upgrade", (request, socket, head) => {
+    const path = new URL(request.url ?? "/", "http://localhost").pathname
+    const protocol = MOCK_PROTOCOLS.find((candidate) => candidate.path === path)
+    if (!protocol) {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n")
+      return
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      const session: MockSession = {
+        socket: ws,
+        protocol,
+        topics: new Map(),
+        windows: new Map(),
+        disconnectTimeout: null,
+      }
+      sessions.add(session)
+      log(`✅ ${protocol.venue} mock client connected (${sessions.size} open)`)
+
+      const delay = injector.disconnectDelay()
+      if (delay !== null) {
+        session.disconnectTimeout = setTimeout(() => {
+          log(`💥 Dropping ${protocol.venue} mock client`)
+          ws.terminate()
+        }, delay)
+      }
+
+      ws.on("message", (data, isBinary) => {
+        if (!isBinary) handleFrame(session, data.toString())
+      })
+      ws.on("close", () => {
+        if (session.disconnectTimeout) clearTimeout(session.disconnectTimeout)
+        sessions.delete(session)
+        log(`🔌 ${protocol.venue} mock client disconnected (${sessions.size} open)`)
+      })
+    })
+  })
+
+  const tickInterval = setInterval(tick, updateIntervalMs)
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject)
+    server.listen(port, () => {
+      const address = server.address()
+      const boundPort = typeof address === "object" && address ? address.port : port
+      const urls = Object.fromEntries(MOCK_PROTOCOLS.map((p) => [p.venue, `ws://localhost:${boundPort}${p.path}`]))
+
+      resolve({
+        urls,
+        close: () =>
+          new Promise((done) => {
+            clearInterval(tickInterval)
+            sessions.forEach((session) => session.socket.terminate())
+            wss.close()
+            server.close(() => done())
+          }),
+      })
+    })
+  })
+}
+
+/**
+ * Command line entry: `npm run mock-exchange -- --port 8765 --seed 42 --regime flash-crash --gap-rate 0.01`.
+ * Flags fall back to MOCK_EXCHANGE_* environment variables.
+ */
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: process.env.MOCK_EXCHANGE_PORT ?? "8765" },
+      interval: { type: "string", default: process.env.MOCK_EXCHANGE_INTERVAL_MS ?? "100" },
+      seed: { type: "string", default: process.env.MOCK_EXCHANGE_SEED ?? "1" },
+      regime: { type: "string", default: process.env.MOCK_EXCHANGE_REGIME ?? "calm" },
+      "disconnect-after": {
+        type: "string",
+        default: process.env.MOCK_EXCHANGE_DISCONNECT_AFTER_MS ?? String(NO_FAULTS.disconnectAfterMs),
+      },
+      "malformed-rate": {
+        type: "string",
+        default: process.env.MOCK_EXCHANGE_MALFORMED_RATE ?? String(NO_FAULTS.malformedRate),
+      },
+      "gap-rate": { type: "string", default: process.env.MOCK_EXCHANGE_GAP_RATE ?? String(NO_FAULTS.gapRate) },
+    },
+  })
+
+  if (!isMarketRegime(values.regime)) {
+    throw new Error(`Unknown regime "${values.regime}"`)
+  }
+
+  const exchange = await startMockExchange({
+    port: Number(values.port),
+    updateIntervalMs: Number(values.interval),
+    seed: Number(values.seed),
+    regime: values.regime,
+    faults: {
+      disconnectAfterMs: Number(values["disconnect-after"]),
+      malformedRate: Number(values["malformed-rate"]),
+      gapRate: Number(values["gap-rate"]),
+    },
+  })
+
+  console.log(`🧪 Mock exchange listening (seed ${values.seed}, ${values.regime}). Point the app at it with:`)
+  Object.entries(exchange.urls).forEach(([venue, url]) =>
+    console.log(`   NEXT_PUBLIC_${venue.toUpperCase()}_WS_URL=${url}`),
+  )
+
+  const shutdown = () => {
+    console.log("🧹 Shutting down mock exchange")
+    exchange.close().then(() => process.exit(0))
+  }
+  process.on("SIGINT", shutdown)
+  process.on("SIGTERM", shutdown)
+}
+
+// Only start listening when run directly, so tests can import startMockExchange
+if (process.argv[1]?.endsWith("server.ts")) {
+  main().catch((error) => {
+    console.error("Failed to start mock exchange:", error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,13 @@
+import { WebSocket } from "ws"
+
+/** Port the feed tests run the mock exchange on; fixed because venue URLs are read when their adapters load */
+export const MOCK_EXCHANGE_TEST_PORT = 18766
+
+// Imported before any venue adapter, so the app's own feed code connects to the mock exchange
+process.env.NEXT_PUBLIC_INSTRUMENTS = "bundled"
+process.env.NEXT_PUBLIC_OKX_WS_URL = `ws://localhost:${MOCK_EXCHANGE_TEST_PORT}/okx`
+process.env.NEXT_PUBLIC_BYBIT_WS_URL = `ws://localhost:${MOCK_EXCHANGE_TEST_PORT}/bybit`
+process.env.NEXT_PUBLIC_DERIBIT_WS_URL = `ws://localhost:${MOCK_EXCHANGE_TEST_PORT}/deribit`
+
+// Node 20 has no global WebSocket
+globalThis.WebSocket ??= WebSocket as unknown as typeof globalThis.WebSocket
@@ -3,11 +3,51 @@
  * Defines all interfaces and types used across the orderbook viewer
  */
 
-/** Supported cryptocurrency exchanges */
-export type Venue = "OKX" | "Bybit" | "Deribit"
+import type { venueAdapters } from "@/lib/venues"
 
-/** Supported trading pairs */
-export type Symbol = "BTC-USD" | "ETH-USD" | "BTC-USDT" | "ETH-USDT"
+/** Supported cryptocurrency exchanges, one per registered venue adapter */
+export type Venue = keyof typeof venueAdapters
+
+/**
+ * Trading pair as BASE-QUOTE, e.g. BTC-USD.
+ * Which venue instrument it maps to, if any, is up to the instrument registry (lib/instruments.ts).
+ */
+export type Symbol = `${string}-${string}`
+
+/** Spot market, or a perpetual contract margined in the quote (linear) or base (inverse) currency */
+export type InstrumentKind = "spot" | "linear" | "inverse"
+
+/** What a size counts: base currency (BTC), quote currency (USD) or contracts */
+export type SizeUnit = "base" | "quote" | "contracts"
+
+/**
+ * Trading rules of one venue instrument, from the venue's instruments endpoint or the bundled offline list
+ */
+export interface InstrumentSpec {
+  venue: Venue
+  /** Venue instrument id, e.g. BTC-USDT or BTC-PERPETUAL */
+  instrument: string
+  kind: InstrumentKind
+  base: string
+  /** Currency prices are quoted in; may differ from the requested symbol, e.g. OKX quotes BTC-USD in USDT */
+  quote: string
+  /** Smallest price increment */
+  tickSize: number
+  /** Smallest size increment, in `sizeUnit` */
+  lotSize: number
+  /** Smallest order size, in `sizeUnit` */
+  minSize: number
+  /** What the venue's book, trade and order sizes count */
+  sizeUnit: SizeUnit
+  /** Value of one contract in `contractCurrency`; 1 base unit for spot */
+  contractValue: number
+  contractCurrency: string
+  /** Decimals implied by the tick and lot sizes, for formatting */
+  priceDecimals: number
+  sizeDecimals: number
+  /** Whether the figures came from the venue or the bundled list */
+  source: "venue" | "bundled"
+}
 
 /** Order types supported by the simulation */
 export type OrderType = "market" | "limit"
@@ -15,8 +55,17 @@ export type OrderType = "market" | "limit"
 /** Order sides for buy/sell operations */
 export type OrderSide = "buy" | "sell"
 
-/** WebSocket connection states */
-export type ConnectionStatus = "connected" | "connecting" | "disconnected" | "error"
+/**
+ * WebSocket connection states ("resyncing" while a fresh snapshot is requested after a sequence gap,
+ * "mock" once reconnection has given up and synthetic books are shown instead)
+ */
+export type ConnectionStatus = "connected" | "connecting" | "resyncing" | "disconnected" | "error" | "mock"
+
+/**
+ * Where an orderbook came from: a live venue feed, the synthetic mock generator,
+ * a recorded session being replayed, or a live book kept after its feed dropped
+ */
+export type OrderbookSource = "live" | "mock" | "replay" | "stale"
 
 /**
  * Orderbook data structure
@@ -29,6 +78,71 @@ export interface Orderbook {
   asks: [number, number][]
   /** Timestamp when the orderbook was last updated */
   timestamp: number
+  /** When the venue published the latest applied update, if it reports one */
+  exchangeTimestamp?: number
+  /** When the venue's matching engine produced the latest applied update (Bybit only) */
+  matchTimestamp?: number
+  /** When the latest applied update was received from the socket */
+  receivedAt?: number
+  /** Origin of the data, so synthetic or outdated books are never mistaken for live ones */
+  source: OrderbookSource
+  /** Venue instrument the book belongs to, with the tick, lot and size unit its levels are in */
+  instrument?: InstrumentSpec
+  /** Unit the level sizes were converted to for display; unset while they are in the instrument's own unit */
+  sizeUnit?: SizeUnit
+}
+
+/**
+ * A public trade (execution) reported by a venue's trades channel
+ */
+export interface Trade {
+  /** Venue trade id */
+  id: string
+  venue: Venue
+  symbol: Symbol
+  price: number
+  size: number
+  /** Aggressor (taker) side: "buy" lifted an offer, "sell" hit a bid */
+  side: OrderSide
+  /** Execution time reported by the venue, epoch ms */
+  timestamp: number
+  /** When the trade was received from the socket */
+  receivedAt?: number
+}
+
+/**
+ * Perpetual swap figures from a venue's ticker channels.
+ * Fields stay null until the venue has reported them.
+ */
+export interface DerivativesTicker {
+  venue: Venue
+  symbol: Symbol
+  /** Perpetual instrument the figures belong to, e.g. BTC-USDT-SWAP */
+  instrument: string
+  markPrice: number | null
+  indexPrice: number | null
+  /** Rate applied at the next settlement, as a fraction (0.0001 = 0.01%) */
+  fundingRate: number | null
+  /** Epoch ms of the next funding settlement */
+  nextFundingTime: number | null
+  openInterest: number | null
+  /** Whether open interest is counted in the base currency (BTC) or the quote currency (USD) */
+  openInterestUnit: "base" | "quote"
+  /** When the last field changed */
+  timestamp: number
+}
+
+/**
+ * Per-venue feed selection
+ * Which book channel to subscribe to and how many levels the ladder and depth chart show
+ */
+export interface VenueFeedSettings {
+  /** Book channel id offered by the venue adapter, e.g. "books5" */
+  channel: string
+  /** Levels per side in the orderbook ladder */
+  ladderDepth: number
+  /** Levels per side in the market depth chart */
+  chartDepth: number
 }
 
 /**
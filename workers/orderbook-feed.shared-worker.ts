@@ -0,0 +1,63 @@
+import { createFeedHub, type FeedSession } from "@/lib/feed/feed-hub"
+import { SESSION_TIMEOUT_MS, type FeedEvent, type SharedFeedMessage, type SharedFeedReply } from "@/lib/feed/protocol"
+
+/** Minimal typing for the shared worker scope (the project compiles against the DOM lib) */
+const scope = self as unknown as {
+  onconnect: ((event: MessageEvent) => void) | null
+}
+
+/**
+ * Connection broker shared by every tab of the viewer.
+ * Each tab gets a hub session over its MessagePort; the hub reference-counts the symbols on each
+ * venue socket across sessions and fans updates out to every tab that watches them.
+ */
+const hub = createFeedHub()
+const sessions = new Map<MessagePort, { session: FeedSession; lastSeen: number }>()
+
+const closeSession = (port: MessagePort) => {
+  sessions.get(port)?.session.dispose()
+  sessions.delete(port)
+}
+
+scope.onconnect = (event) => {
+  const port = event.ports[0]
+  const reply = (message: SharedFeedReply) => port.postMessage(message)
+
+  port.onmessage = (message: MessageEvent<SharedFeedMessage>) => {
+    const command = message.data
+
+    if (command.type === "disconnect") {
+      closeSession(port)
+      return
+    }
+
+    let entry = sessions.get(port)
+    if (!entry) {
+      // A keepalive from a swept session (e.g. a throttled background tab) must not open an empty one;
+      // the tab answers the resync with its subscription, which reopens the session below
+      if (command.type === "keepalive") {
+        reply({ type: "resync" })
+        return
+      }
+
+      // Ports reopen their session after a disconnect, e.g. a tab restored from the back/forward cache
+      entry = { session: hub.connect((feedEvent: FeedEvent) => reply(feedEvent)), lastSeen: Date.now() }
+      sessions.set(port, entry)
+    }
+
+    entry.lastSeen = Date.now()
+    if (command.type !== "keepalive") {
+      entry.session.handle(command)
+    }
+  }
+
+  port.start()
+}
+
+// Ports give no close notification, so tabs that vanished without saying goodbye are swept
+setInterval(() => {
+  const cutoff = Date.now() - SESSION_TIMEOUT_MS
+  sessions.forEach(({ lastSeen }, port) => {
+    if (lastSeen < cutoff) closeSession(port)
+  })
+}, SESSION_TIMEOUT_MS / 3)
@@ -0,0 +1,12 @@
+import { createFeedHub } from "@/lib/feed/feed-hub"
+import type { FeedCommand, FeedEvent } from "@/lib/feed/protocol"
+
+/** Minimal typing for the dedicated worker scope (the project compiles against the DOM lib) */
+const scope = self as unknown as {
+  postMessage: (event: FeedEvent) => void
+  onmessage: ((event: MessageEvent<FeedCommand>) => void) | null
+}
+
+const session = createFeedHub().connect((event) => scope.postMessage(event))
+
+scope.onmessage = (event) => session.handle(event.data)